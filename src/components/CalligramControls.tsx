@@ -0,0 +1,67 @@
+import { useId } from "react";
+import { LabeledSlider, LabeledToggle } from "@/components/LabeledSlider";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_CALLIGRAM_ROWS,
+  MIN_CALLIGRAM_ROWS,
+  type Calligram,
+  type CalligramMode,
+} from "@/lib/render";
+
+const CALLIGRAM_MODE_LABELS: Record<CalligramMode, string> = {
+  off: 'Off',
+  repeat: 'Repeat text',
+  flow: 'Flow once',
+};
+
+interface CalligramControlsProps {
+  value: Calligram;
+  onChange: (value: Calligram) => void;
+}
+
+/** Whether the text fills the shape, how, and whether the shape is still filled behind it. */
+export const CalligramControls = ({ value, onChange }: CalligramControlsProps) => {
+  const id = useId();
+  const update = (changes: Partial<Calligram>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-mode`} className="text-sm font-medium">Fill shape with text</Label>
+        <Select value={value.mode} onValueChange={(mode: CalligramMode) => update({ mode })}>
+          <SelectTrigger id={`${id}-mode`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CALLIGRAM_MODE_LABELS).map(([mode, label]) => (
+              <SelectItem key={mode} value={mode}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.mode !== 'off' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          {value.mode === 'repeat' && (
+            <LabeledSlider
+              id={`${id}-rows`}
+              label="Rows"
+              value={value.rows}
+              min={MIN_CALLIGRAM_ROWS}
+              max={MAX_CALLIGRAM_ROWS}
+              step={1}
+              format={(rows) => String(Math.round(rows))}
+              onChange={(rows) => update({ rows })}
+            />
+          )}
+          <LabeledToggle
+            id={`${id}-remove-background`}
+            label="Remove background"
+            checked={value.removeBackground}
+            onChange={(removeBackground) => update({ removeBackground })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
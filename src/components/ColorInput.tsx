@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { formatHex, parseColor } from "@/lib/render";
+
+interface ColorInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  "aria-label"?: string;
+  className?: string;
+}
+
+/**
+ * A color picker plus a text field that takes hex, rgb(), hsl() or oklch().
+ * Typed values are only passed on once they parse; the picker keeps the
+ * current opacity, which it cannot show itself.
+ */
+export const ColorInput = ({ id, value, onChange, "aria-label": ariaLabel, className }: ColorInputProps) => {
+  const [draft, setDraft] = useState(value);
+  const parsed = parseColor(value);
+  const isDraftValid = parseColor(draft) !== null;
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Input
+        type="color"
+        value={parsed ? formatHex({ ...parsed, alpha: 1 }) : '#000000'}
+        onChange={(e) => onChange(formatHex({ ...parseColor(e.target.value), alpha: parsed?.alpha ?? 1 }))}
+        aria-label={ariaLabel ? `${ariaLabel} picker` : undefined}
+        className="w-12 h-9 p-1 shrink-0"
+      />
+      <Input
+        id={id}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (parseColor(e.target.value)) onChange(e.target.value.trim());
+        }}
+        onBlur={() => setDraft(value)}
+        aria-label={ariaLabel}
+        aria-invalid={!isDraftValid}
+        spellCheck={false}
+        className={cn("h-9 font-mono text-xs min-w-0", !isDraftValid && "border-destructive focus-visible:ring-destructive")}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { FileDown, FileUp, Palette, Trash2 } from "lucide-react";
+import { ColorInput } from "@/components/ColorInput";
+import { GradientEditor } from "@/components/GradientEditor";
+import { RegistryIcon } from "@/components/RegistryIcon";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  deleteColorScheme,
+  editableColorScheme,
+  isSameColorScheme,
+  loadColorSchemes,
+  saveColorScheme,
+  toCustomColorScheme,
+  type SavedColorScheme,
+} from "@/lib/color-scheme-library";
+import {
+  TextArtSpecError,
+  customColorSchemeSchema,
+  formatHex,
+  groupByCategory,
+  listSchemes,
+  parseColor,
+  parseCustomColorSchemeJson,
+  serializeCustomColorScheme,
+  toCssBackground,
+  type ColorScheme,
+  type CustomColorScheme,
+} from "@/lib/render";
+
+const SAVED_PREFIX = 'saved:';
+
+interface EditorState {
+  /** Library entry being edited; unset for a new scheme. */
+  id?: string;
+  scheme: CustomColorScheme;
+}
+
+interface ColorSchemeEditorProps {
+  state: EditorState | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (scheme: CustomColorScheme, id?: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ColorSchemeEditor = ({ state, onOpenChange, onSave, onDelete }: ColorSchemeEditorProps) => {
+  const [draft, setDraft] = useState<CustomColorScheme | null>(null);
+
+  useEffect(() => {
+    if (state) setDraft(state.scheme);
+  }, [state]);
+
+  if (!draft) return null;
+
+  const update = (changes: Partial<CustomColorScheme>) => setDraft({ ...draft, ...changes });
+  const shadow = parseColor(draft.shadow);
+
+  const save = () => {
+    const result = customColorSchemeSchema.safeParse(draft);
+    if (!result.success) {
+      toast.error("Invalid color scheme", {
+        description: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('\n'),
+      });
+      return;
+    }
+    onSave(result.data, state?.id);
+  };
+
+  return (
+    <Dialog open={state !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{state?.id ? "Edit color scheme" : "New color scheme"}</DialogTitle>
+          <DialogDescription>Saved schemes are kept in this browser and embedded in designs that use them.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            className="h-16 rounded-md border flex items-center justify-center text-lg font-bold"
+            style={{ background: toCssBackground(draft), color: draft.text, textShadow: `2px 2px 4px ${draft.shadow}` }}
+          >
+            {draft.name || "Preview"}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scheme-name" className="text-sm font-medium">Name</Label>
+            <Input id="scheme-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+
+          <GradientEditor value={draft} onChange={update} />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheme-text" className="text-sm font-medium">Text</Label>
+              <ColorInput id="scheme-text" value={draft.text} onChange={(text) => update({ text })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheme-shadow" className="text-sm font-medium">Shadow</Label>
+              <ColorInput id="scheme-shadow" value={draft.shadow} onChange={(value) => update({ shadow: value })} />
+              {shadow && (
+                <Slider
+                  value={[shadow.alpha]}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onValueChange={([alpha]) => update({ shadow: formatHex({ ...shadow, alpha }) })}
+                  aria-label="Shadow opacity"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {state?.id && (
+            <Button variant="outline" onClick={() => onDelete(state.id)} className="sm:mr-auto">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ColorSchemePickerProps {
+  colorScheme: ColorScheme;
+  customColorScheme: CustomColorScheme | null;
+  onChange: (colorScheme: ColorScheme, customColorScheme?: CustomColorScheme) => void;
+}
+
+/**
+ * Color Scheme select listing the registered schemes and the browser's palette
+ * library, with an editor and JSON import/export for sharing palettes.
+ */
+export const ColorSchemePicker = ({ colorScheme, customColorScheme, onChange }: ColorSchemePickerProps) => {
+  const [savedSchemes, setSavedSchemes] = useState<SavedColorScheme[]>(loadColorSchemes);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const schemeGroups = useMemo(() => groupByCategory(listSchemes()), []);
+
+  const activeSaved = colorScheme === 'custom' && customColorScheme
+    ? savedSchemes.find((saved) => isSameColorScheme(saved, customColorScheme))
+    : undefined;
+  const selectValue = activeSaved ? `${SAVED_PREFIX}${activeSaved.id}` : colorScheme;
+
+  const currentScheme = () => editableColorScheme(colorScheme, customColorScheme);
+
+  const select = (value: string) => {
+    if (value.startsWith(SAVED_PREFIX)) {
+      const saved = savedSchemes.find((entry) => `${SAVED_PREFIX}${entry.id}` === value);
+      if (saved) onChange('custom', toCustomColorScheme(saved));
+    } else {
+      onChange(value as ColorScheme);
+    }
+  };
+
+  const save = useCallback((scheme: CustomColorScheme, id?: string) => {
+    try {
+      setSavedSchemes(saveColorScheme(scheme, id));
+      onChange('custom', scheme);
+      setEditor(null);
+      toast.success(`Color scheme "${scheme.name}" saved!`);
+    } catch (error) {
+      console.error('Error saving color scheme:', error);
+      toast.error("Failed to save color scheme");
+    }
+  }, [onChange]);
+
+  const remove = useCallback((id: string) => {
+    try {
+      setSavedSchemes(deleteColorScheme(id));
+      setEditor(null);
+      toast.success("Color scheme deleted");
+    } catch (error) {
+      console.error('Error deleting color scheme:', error);
+      toast.error("Failed to delete color scheme");
+    }
+  }, []);
+
+  const exportScheme = () => {
+    const scheme = currentScheme();
+    const blob = new Blob([serializeCustomColorScheme(scheme)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `${scheme.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'colors'}.colors.json`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importScheme = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const scheme = parseCustomColorSchemeJson(await file.text());
+      if (savedSchemes.some((saved) => isSameColorScheme(saved, scheme))) {
+        onChange('custom', scheme);
+        toast.success(`Color scheme "${scheme.name}" is already saved`);
+      } else {
+        save(scheme);
+      }
+    } catch (error) {
+      if (error instanceof TextArtSpecError) {
+        toast.error(`Could not import ${file.name}`, { description: error.issues.join('\n') });
+      } else {
+        console.error('Error importing color scheme:', error);
+        toast.error("Failed to import color scheme");
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Color Scheme</Label>
+      <div className="flex gap-2">
+        <Select value={selectValue} onValueChange={select}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {schemeGroups.map(({ category, entries }) => (
+              <SelectGroup key={category}>
+                <SelectLabel>{category}</SelectLabel>
+                {entries.map(({ id, label, icon, scheme }) => (
+                  <SelectItem key={id} value={id}>
+                    <span className="flex items-center gap-2">
+                      {icon ? (
+                        <RegistryIcon path={icon} />
+                      ) : (
+                        <span className="w-4 h-4 shrink-0 rounded-sm border" style={{ background: toCssBackground(scheme) }} />
+                      )}
+                      {label}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            ))}
+            {(savedSchemes.length > 0 || (colorScheme === 'custom' && !activeSaved)) && <SelectSeparator />}
+            {savedSchemes.map((saved) => (
+              <SelectItem key={saved.id} value={`${SAVED_PREFIX}${saved.id}`}>{saved.name}</SelectItem>
+            ))}
+            {colorScheme === 'custom' && !activeSaved && customColorScheme && (
+              <SelectItem value="custom">{customColorScheme.name} (from design)</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          className="shrink-0"
+          onClick={() => setEditor({ id: activeSaved?.id, scheme: currentScheme() })}
+          aria-label="Customize color scheme"
+          title={activeSaved ? "Edit color scheme" : "Customize as a new color scheme"}
+        >
+          <Palette className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="ghost" size="sm" onClick={() => importInputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+        <Button variant="ghost" size="sm" onClick={exportScheme}>
+          <FileDown className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={importScheme}
+          className="hidden"
+        />
+      </div>
+
+      <ColorSchemeEditor
+        state={editor}
+        onOpenChange={(open) => !open && setEditor(null)}
+        onSave={save}
+        onDelete={remove}
+      />
+    </div>
+  );
+};
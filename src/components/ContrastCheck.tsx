@@ -0,0 +1,50 @@
+import { Check, Wand2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ContrastReport, WcagLevel } from "@/lib/render";
+
+interface ContrastCheckProps {
+  report: ContrastReport;
+  hasOutline: boolean;
+  onFixTextColor: () => void;
+  onAddOutline: () => void;
+  onRemoveOutline: () => void;
+}
+
+const LevelBadge = ({ level, passes }: { level: WcagLevel; passes: boolean }) => (
+  <Badge variant={passes ? 'default' : 'outline'} className="gap-1">
+    {passes ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+    {level}
+  </Badge>
+);
+
+/** WCAG rating of the preview's text against its background, with one-click fixes. */
+export const ContrastCheck = ({ report, hasOutline, onFixTextColor, onAddOutline, onRemoveOutline }: ContrastCheckProps) => (
+  <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+    <span className="text-muted-foreground">
+      Contrast <span className="font-medium text-foreground tabular-nums">{report.ratio.toFixed(2)}:1</span>
+      {report.largeText && " (large text)"}
+    </span>
+    <LevelBadge level="AA" passes={report.AA} />
+    <LevelBadge level="AAA" passes={report.AAA} />
+    {!report.AA && (
+      <>
+        <Button variant="outline" size="sm" onClick={onFixTextColor}>
+          <Wand2 className="w-4 h-4 mr-2" />
+          Fix text color
+        </Button>
+        {!hasOutline && (
+          <Button variant="outline" size="sm" onClick={onAddOutline}>
+            <Wand2 className="w-4 h-4 mr-2" />
+            Add outline
+          </Button>
+        )}
+      </>
+    )}
+    {hasOutline && (
+      <Button variant="ghost" size="sm" onClick={onRemoveOutline}>
+        Remove outline
+      </Button>
+    )}
+  </div>
+);
@@ -0,0 +1,92 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { FileUp } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { MAX_PATH_DATA_LENGTH, extractSvgPathData, isValidPathData } from "@/lib/render";
+
+interface CustomPathInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** How the path is used, shown under the input. */
+  hint?: string;
+  placeholder?: string;
+}
+
+/**
+ * SVG path data for the custom shape or text path, pasted as a `d` attribute
+ * or taken from an uploaded single-path SVG. Typed data is only passed on
+ * once it parses.
+ */
+export const CustomPathInput = ({
+  value,
+  onChange,
+  hint = "Scaled to fit the image. Text follows the largest closed outline.",
+  placeholder = "M 50 0 L 100 100 L 0 100 Z",
+}: CustomPathInputProps) => {
+  const id = useId();
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState(value);
+  const isDraftValid = draft.trim() === '' || isValidPathData(draft.trim());
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const uploadSvg = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(extractSvgPathData(await file.text()));
+      toast.success(`Path from ${file.name} applied`);
+    } catch (error) {
+      toast.error(`Could not use ${file.name}`, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-path`} className="text-sm font-medium">SVG path</Label>
+        <Button variant="ghost" size="sm" onClick={() => uploadInputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Upload SVG
+        </Button>
+        <input
+          ref={uploadInputRef}
+          type="file"
+          accept=".svg,image/svg+xml"
+          onChange={uploadSvg}
+          className="hidden"
+        />
+      </div>
+      <Textarea
+        id={`${id}-path`}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          const d = e.target.value.trim();
+          if (d && isValidPathData(d)) onChange(d);
+        }}
+        onBlur={() => setDraft(value)}
+        placeholder={placeholder}
+        maxLength={MAX_PATH_DATA_LENGTH}
+        rows={3}
+        aria-invalid={!isDraftValid}
+        spellCheck={false}
+        className={cn("font-mono text-xs resize-y", !isDraftValid && "border-destructive focus-visible:ring-destructive")}
+      />
+      <p className="text-xs text-muted-foreground">
+        {isDraftValid
+          ? hint
+          : "Not valid SVG path data"}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import { useId, useRef, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { ColorInput } from "@/components/ColorInput";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+import {
+  MAX_BACKGROUND_STOPS,
+  toCssBackground,
+  type ColorSchemeConfig,
+  type GradientType,
+  type InterpolationSpace,
+} from "@/lib/render";
+
+export type GradientValue = Pick<ColorSchemeConfig, 'background' | 'gradient'>;
+
+const GRADIENT_TYPE_LABELS: Record<GradientType, string> = {
+  linear: 'Linear',
+  radial: 'Radial',
+  conic: 'Conic',
+  solid: 'Solid color',
+};
+
+const INTERPOLATION_LABELS: Record<InterpolationSpace, string> = {
+  srgb: 'sRGB',
+  oklab: 'OKLab',
+  oklch: 'OKLCH',
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+interface GradientEditorProps {
+  /** Label of the type select, naming what the gradient paints. */
+  label?: string;
+  value: GradientValue;
+  onChange: (value: GradientValue) => void;
+}
+
+/**
+ * Gradient type, angle and stops. Stops are dragged along the bar; pressing
+ * the bar elsewhere adds one there, which can be dragged straight away.
+ */
+export const GradientEditor = ({ label = 'Background', value, onChange }: GradientEditorProps) => {
+  const { background, gradient } = value;
+  const [selected, setSelected] = useState(0);
+  // The editor appears in the Options panel, the effects and the scheme dialog
+  const id = useId();
+  const barRef = useRef<HTMLDivElement>(null);
+  // Stop added by the current press on the bar, which the bar drags until release
+  const addedStopRef = useRef<number | null>(null);
+  const active = Math.min(selected, background.length - 1);
+
+  const positionAt = (clientX: number) => {
+    const rect = barRef.current.getBoundingClientRect();
+    return clamp01((clientX - rect.left) / rect.width);
+  };
+
+  const update = (changes: Partial<GradientValue['gradient']>, nextBackground = background) =>
+    onChange({ background: nextBackground, gradient: { ...gradient, ...changes } });
+
+  const moveStop = (index: number, position: number) =>
+    update({ positions: gradient.positions.map((current, i) => (i === index ? +position.toFixed(3) : current)) });
+
+  const addStop = (position: number) => {
+    if (background.length >= MAX_BACKGROUND_STOPS) return null;
+    // Take the colour of the nearest stop so the gradient barely changes
+    const nearest = gradient.positions.reduce(
+      (best, current, i) => (Math.abs(current - position) < Math.abs(gradient.positions[best] - position) ? i : best),
+      0,
+    );
+    update({ positions: [...gradient.positions, +position.toFixed(3)] }, [...background, background[nearest]]);
+    setSelected(background.length);
+    return background.length;
+  };
+
+  const removeStop = (index: number) => {
+    if (background.length <= 1) return;
+    update(
+      { positions: gradient.positions.filter((_, i) => i !== index) },
+      background.filter((_, i) => i !== index),
+    );
+    setSelected(0);
+  };
+
+  const startDrag = (index: number) => (event: React.PointerEvent<HTMLButtonElement>) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setSelected(index);
+  };
+
+  const drag = (index: number) => (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    moveStop(index, positionAt(event.clientX));
+  };
+
+  // The new stop's button does not exist yet, so the bar holds the pointer for it
+  const startAddDrag = (event: React.PointerEvent<HTMLDivElement>) => {
+    addedStopRef.current = addStop(positionAt(event.clientX));
+    if (addedStopRef.current !== null) event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const dragAdded = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (addedStopRef.current === null || !event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    moveStop(addedStopRef.current, positionAt(event.clientX));
+  };
+
+  const endAddDrag = () => {
+    addedStopRef.current = null;
+  };
+
+  const nudge = (index: number) => (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    const step = event.shiftKey ? 0.1 : 0.01;
+    if (event.key === 'ArrowLeft') moveStop(index, clamp01(gradient.positions[index] - step));
+    else if (event.key === 'ArrowRight') moveStop(index, clamp01(gradient.positions[index] + step));
+    else if (event.key === 'Delete' || event.key === 'Backspace') removeStop(index);
+    else return;
+    event.preventDefault();
+  };
+
+  const isSolid = gradient.type === 'solid';
+  const barBackground = isSolid
+    ? background[active]
+    : toCssBackground({ background, gradient: { ...gradient, type: 'linear', angle: 90 } });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">{label}</Label>
+          <Select value={gradient.type} onValueChange={(type: GradientType) => update({ type })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(GRADIENT_TYPE_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {!isSolid && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Blend in</Label>
+            <Select
+              value={gradient.interpolation}
+              onValueChange={(interpolation: InterpolationSpace) => update({ interpolation })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(INTERPOLATION_LABELS).map(([space, label]) => (
+                  <SelectItem key={space} value={space}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {(gradient.type === 'linear' || gradient.type === 'conic') && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Angle</Label>
+              <span className="text-xs text-muted-foreground tabular-nums">{Math.round(gradient.angle)}°</span>
+            </div>
+            <Slider
+              value={[gradient.angle]}
+              min={0}
+              max={360}
+              step={1}
+              onValueChange={([angle]) => update({ angle })}
+              aria-label="Gradient angle"
+              className="h-10"
+            />
+          </div>
+        )}
+      </div>
+
+      {!isSolid && (
+        <div
+          ref={barRef}
+          className="relative h-8 rounded-md border cursor-copy touch-none"
+          style={{ background: barBackground }}
+          onPointerDown={startAddDrag}
+          onPointerMove={dragAdded}
+          onPointerUp={endAddDrag}
+          onPointerCancel={endAddDrag}
+          title="Click to add a color stop, or drag to place it"
+        >
+          {background.map((color, i) => (
+            <button
+              key={i}
+              type="button"
+              className={cn(
+                "absolute top-1/2 h-6 w-4 -translate-x-1/2 -translate-y-1/2 rounded-sm border-2 shadow cursor-grab touch-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                i === active ? "border-primary ring-1 ring-primary" : "border-background",
+              )}
+              style={{ left: `${gradient.positions[i] * 100}%`, background: color }}
+              onPointerDown={startDrag(i)}
+              onPointerMove={drag(i)}
+              onKeyDown={nudge(i)}
+              aria-label={`Color stop ${i + 1} at ${Math.round(gradient.positions[i] * 100)}%`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-2 flex-1 min-w-0">
+          <Label htmlFor={`${id}-color`} className="text-sm font-medium">{isSolid ? "Color" : `Stop ${active + 1}`}</Label>
+          <ColorInput
+            id={`${id}-color`}
+            value={background[active]}
+            onChange={(value) => update({}, background.map((color, i) => (i === active ? value : color)))}
+          />
+        </div>
+        {!isSolid && (
+          <>
+            <div className="space-y-2 w-24">
+              <Label htmlFor={`${id}-position`} className="text-sm font-medium">Position</Label>
+              <Input
+                id={`${id}-position`}
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(gradient.positions[active] * 100)}
+                onChange={(e) => moveStop(active, clamp01((parseFloat(e.target.value) || 0) / 100))}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => removeStop(active)}
+              disabled={background.length <= 1}
+              aria-label="Remove color stop"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
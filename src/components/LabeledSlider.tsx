@@ -0,0 +1,40 @@
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+
+interface LabeledSliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+/** A slider with its label on the left and the formatted value on the right. */
+export const LabeledSlider = ({ id, label, value, min, max, step, format, onChange }: LabeledSliderProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <Label htmlFor={id} className="text-sm font-medium">{label}</Label>
+      <span className="text-xs text-muted-foreground tabular-nums">{format(value)}</span>
+    </div>
+    <Slider id={id} value={[value]} min={min} max={max} step={step} onValueChange={([next]) => onChange(next)} />
+  </div>
+);
+
+interface LabeledToggleProps {
+  id: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+/** A switch with its label on the left. */
+export const LabeledToggle = ({ id, label, checked, onChange }: LabeledToggleProps) => (
+  <div className="flex items-center justify-between gap-4">
+    <Label htmlFor={id} className="text-sm font-medium">{label}</Label>
+    <Switch id={id} checked={checked} onCheckedChange={onChange} />
+  </div>
+);
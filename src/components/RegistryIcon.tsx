@@ -0,0 +1,23 @@
+import { cn } from "@/lib/utils";
+
+interface RegistryIconProps {
+  /** SVG path data in a 16 × 16 box, as registry entries declare it. */
+  path: string;
+  className?: string;
+}
+
+/** A registry entry's icon, stroked in the current text colour. */
+export const RegistryIcon = ({ path, className }: RegistryIconProps) => (
+  <svg
+    viewBox="0 0 16 16"
+    className={cn("w-4 h-4 shrink-0 text-muted-foreground", className)}
+    fill="none"
+    stroke="currentColor"
+    strokeWidth={1.25}
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    aria-hidden="true"
+  >
+    <path d={path} />
+  </svg>
+);
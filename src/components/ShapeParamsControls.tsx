@@ -0,0 +1,156 @@
+import { useId } from "react";
+import { Dices } from "lucide-react";
+import { CustomPathInput } from "@/components/CustomPathInput";
+import { LabeledSlider } from "@/components/LabeledSlider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  MAX_BLOB_SEED,
+  MAX_BURST_RAYS,
+  MAX_CORNER_RADIUS,
+  MAX_POLYGON_SIDES,
+  MAX_STAR_INNER_RATIO,
+  MAX_STAR_POINTS,
+  MAX_TAIL_SIZE,
+  MIN_BURST_RAYS,
+  MIN_POLYGON_SIDES,
+  MIN_STAR_INNER_RATIO,
+  MIN_STAR_POINTS,
+  MIN_TAIL_SIZE,
+  getShape,
+  type ImageShape,
+  type ShapeParams,
+} from "@/lib/render";
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+const count = (value: number) => String(Math.round(value));
+const degrees = (value: number) => `${Math.round(value)}°`;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+type SliderParam = 'sides' | 'points' | 'innerRatio' | 'rays' | 'tailPosition' | 'tailSize' | 'rotation';
+
+interface SliderSettings {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+// In the order the sliders appear
+const SLIDERS: Record<SliderParam, SliderSettings> = {
+  sides: { label: 'Sides', min: MIN_POLYGON_SIDES, max: MAX_POLYGON_SIDES, step: 1, format: count },
+  points: { label: 'Points', min: MIN_STAR_POINTS, max: MAX_STAR_POINTS, step: 1, format: count },
+  innerRatio: { label: 'Inner radius', min: MIN_STAR_INNER_RATIO, max: MAX_STAR_INNER_RATIO, step: 0.01, format: percent },
+  rays: { label: 'Rays', min: MIN_BURST_RAYS, max: MAX_BURST_RAYS, step: 1, format: count },
+  tailPosition: { label: 'Tail position', min: 0, max: 1, step: 0.01, format: percent },
+  tailSize: { label: 'Tail length', min: MIN_TAIL_SIZE, max: MAX_TAIL_SIZE, step: 0.01, format: percent },
+  rotation: { label: 'Rotation', min: 0, max: 360, step: 1, format: degrees },
+};
+
+interface ShapeParamsControlsProps {
+  shape: ImageShape;
+  value: ShapeParams;
+  onChange: (value: ShapeParams) => void;
+}
+
+/**
+ * Settings of the selected shape, for the `ShapeParams` its registration says
+ * it reads; renders nothing for shapes without any.
+ */
+export const ShapeParamsControls = ({ shape, value, onChange }: ShapeParamsControlsProps) => {
+  const id = useId();
+  const params = getShape(shape)?.params ?? [];
+  const update = (changes: Partial<ShapeParams>) => onChange({ ...value, ...changes });
+  const sliders = (Object.keys(SLIDERS) as SliderParam[]).filter((param) => params.includes(param));
+
+  if (!params.length) return null;
+
+  const [firstCorner] = value.cornerRadii;
+  const isUniform = value.cornerRadii.every((radius) => radius === firstCorner);
+
+  return (
+    <div className="space-y-4">
+      {sliders.length > 0 && (
+        <div className={sliders.length > 2 ? "grid grid-cols-1 md:grid-cols-3 gap-4" : "grid grid-cols-1 md:grid-cols-2 gap-4"}>
+          {sliders.map((param) => (
+            <LabeledSlider
+              key={param}
+              id={`${id}-${param}`}
+              {...SLIDERS[param]}
+              value={value[param]}
+              onChange={(next) => update({ [param]: next })}
+            />
+          ))}
+        </div>
+      )}
+
+      {params.includes('cornerRadii') && (
+        <div className="space-y-4">
+          <LabeledSlider
+            id={`${id}-corners`}
+            label={isUniform ? "Corner radius" : "All corners"}
+            value={firstCorner}
+            min={0}
+            max={MAX_CORNER_RADIUS}
+            step={0.005}
+            format={percent}
+            onChange={(radius) => update({ cornerRadii: value.cornerRadii.map(() => radius) })}
+          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CORNER_LABELS.map((label, corner) => (
+              <LabeledSlider
+                key={label}
+                id={`${id}-corner-${corner}`}
+                label={label}
+                value={value.cornerRadii[corner]}
+                min={0}
+                max={MAX_CORNER_RADIUS}
+                step={0.005}
+                format={percent}
+                onChange={(radius) =>
+                  update({ cornerRadii: value.cornerRadii.map((current, i) => (i === corner ? radius : current)) })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {params.includes('seed') && (
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-seed`} className="text-sm font-medium">Seed</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${id}-seed`}
+              type="number"
+              min={0}
+              max={MAX_BLOB_SEED}
+              step={1}
+              value={value.seed}
+              onChange={(e) => {
+                const seed = Number(e.target.value);
+                if (Number.isInteger(seed) && seed >= 0 && seed <= MAX_BLOB_SEED) update({ seed });
+              }}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              onClick={() => update({ seed: Math.floor(Math.random() * (MAX_BLOB_SEED + 1)) })}
+              aria-label="Random seed"
+              title="Random seed"
+            >
+              <Dices className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {params.includes('customPath') && (
+        <CustomPathInput value={value.customPath} onChange={(customPath) => update({ customPath })} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { RegistryIcon } from "@/components/RegistryIcon";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { groupByCategory, listShapes, type ImageShape, type ShapeDefinition, type ShapeParams } from "@/lib/render";
+
+const ICON_SIZE = 16;
+
+interface ShapeIconProps {
+  shape: ShapeDefinition;
+  params: ShapeParams;
+}
+
+/** The shape's own icon, or its outline drawn with the current shape settings. */
+const ShapeIcon = ({ shape, params }: ShapeIconProps) => {
+  const points = useMemo(
+    () => shape.icon ? '' : shape
+      .outline(ICON_SIZE, ICON_SIZE, params)
+      .map(({ x, y }) => `${x.toFixed(2)},${y.toFixed(2)}`)
+      .join(' '),
+    [shape, params],
+  );
+  if (shape.icon) return <RegistryIcon path={shape.icon} />;
+  return (
+    <svg
+      viewBox={`-1 -1 ${ICON_SIZE + 2} ${ICON_SIZE + 2}`}
+      className="w-4 h-4 shrink-0 text-muted-foreground"
+      aria-hidden="true"
+    >
+      <polygon points={points} fill="currentColor" fillOpacity={0.2} stroke="currentColor" strokeWidth={1} />
+    </svg>
+  );
+};
+
+interface ShapeSelectProps {
+  value: ImageShape;
+  params: ShapeParams;
+  onChange: (value: ImageShape) => void;
+}
+
+/** Every registered shape, grouped by category. */
+export const ShapeSelect = ({ value, params, onChange }: ShapeSelectProps) => {
+  const groups = useMemo(() => groupByCategory(listShapes()), []);
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Shape</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {groups.map(({ category, entries }) => (
+            <SelectGroup key={category}>
+              <SelectLabel>{category}</SelectLabel>
+              {entries.map((shape) => (
+                <SelectItem key={shape.id} value={shape.id}>
+                  <span className="flex items-center gap-2">
+                    <ShapeIcon shape={shape} params={params} />
+                    {shape.label}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { useId } from "react";
+import { ColorInput } from "@/components/ColorInput";
+import { LabeledSlider, LabeledToggle } from "@/components/LabeledSlider";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_BORDER_WIDTH,
+  MAX_EFFECT_BLUR,
+  MAX_SHADOW_OFFSET,
+  type BorderStyle,
+  type ShapeStyle,
+} from "@/lib/render";
+
+const BORDER_STYLE_LABELS: Record<BorderStyle, string> = {
+  solid: 'Solid',
+  dashed: 'Dashed',
+  dotted: 'Dotted',
+};
+
+const px = (value: number) => `${Math.round(value)} px`;
+
+interface ShapeStyleControlsProps {
+  value: ShapeStyle;
+  onChange: (value: ShapeStyle) => void;
+}
+
+/** Border and drop shadow of the shape itself. */
+export const ShapeStyleControls = ({ value, onChange }: ShapeStyleControlsProps) => {
+  const id = useId();
+  const { border, shadow } = value;
+  const update = <K extends keyof ShapeStyle>(key: K, changes: Partial<ShapeStyle[K]>) =>
+    onChange({ ...value, [key]: { ...value[key], ...changes } });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <LabeledToggle
+          id={`${id}-border`}
+          label="Shape border"
+          checked={border.enabled}
+          onChange={(enabled) => update('border', { enabled })}
+        />
+        {border.enabled && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-border-color`} className="text-sm font-medium">Color</Label>
+              <ColorInput id={`${id}-border-color`} value={border.color} onChange={(color) => update('border', { color })} />
+            </div>
+            <LabeledSlider
+              id={`${id}-border-width`}
+              label="Width"
+              value={border.width}
+              min={1}
+              max={MAX_BORDER_WIDTH}
+              step={1}
+              format={px}
+              onChange={(width) => update('border', { width })}
+            />
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Style</Label>
+              <Select value={border.style} onValueChange={(style: BorderStyle) => update('border', { style })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BORDER_STYLE_LABELS).map(([style, label]) => (
+                    <SelectItem key={style} value={style}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <LabeledToggle
+          id={`${id}-shadow`}
+          label="Shape drop shadow"
+          checked={shadow.enabled}
+          onChange={(enabled) => update('shadow', { enabled })}
+        />
+        {shadow.enabled && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`${id}-shadow-color`} className="text-sm font-medium">Color</Label>
+                <ColorInput id={`${id}-shadow-color`} value={shadow.color} onChange={(color) => update('shadow', { color })} />
+              </div>
+              <LabeledSlider
+                id={`${id}-shadow-blur`}
+                label="Blur"
+                value={shadow.blur}
+                min={0}
+                max={MAX_EFFECT_BLUR}
+                step={1}
+                format={px}
+                onChange={(blur) => update('shadow', { blur })}
+              />
+              <LabeledSlider
+                id={`${id}-shadow-x`}
+                label="Offset X"
+                value={shadow.offsetX}
+                min={-MAX_SHADOW_OFFSET}
+                max={MAX_SHADOW_OFFSET}
+                step={1}
+                format={px}
+                onChange={(offsetX) => update('shadow', { offsetX })}
+              />
+              <LabeledSlider
+                id={`${id}-shadow-y`}
+                label="Offset Y"
+                value={shadow.offsetY}
+                min={-MAX_SHADOW_OFFSET}
+                max={MAX_SHADOW_OFFSET}
+                step={1}
+                format={px}
+                onChange={(offsetY) => update('shadow', { offsetY })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The shape shrinks to leave a transparent margin for the shadow to fall on.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,262 @@
+import { useId, useMemo } from "react";
+import { ColorInput } from "@/components/ColorInput";
+import { GradientEditor } from "@/components/GradientEditor";
+import { LabeledSlider, LabeledToggle } from "@/components/LabeledSlider";
+import { RegistryIcon } from "@/components/RegistryIcon";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_EFFECT_BLUR,
+  MAX_OUTLINE_WIDTH,
+  MAX_PATTERN_SIZE,
+  MAX_SHADOW_OFFSET,
+  MIN_PATTERN_SIZE,
+  groupByCategory,
+  listEffects,
+  type TextEffects,
+  type TextFillType,
+  type TextPattern,
+} from "@/lib/render";
+
+const FILL_TYPE_LABELS: Record<TextFillType, string> = {
+  solid: 'Text color',
+  gradient: 'Gradient',
+  pattern: 'Pattern',
+};
+
+const PATTERN_LABELS: Record<TextPattern, string> = {
+  stripes: 'Stripes',
+  dots: 'Dots',
+  checks: 'Checks',
+};
+
+const px = (value: number) => `${Math.round(value)} px`;
+
+interface TextEffectsControlsProps {
+  value: TextEffects;
+  onChange: (value: TextEffects) => void;
+  /** The scheme's colours, shown where an effect falls back to them. */
+  schemeText: string;
+  schemeShadow: string;
+}
+
+/**
+ * Shadow, glow, outline and fill of the text, listed in the order they stack,
+ * followed by toggles for the registered effects.
+ */
+export const TextEffectsControls = ({ value, onChange, schemeText, schemeShadow }: TextEffectsControlsProps) => {
+  const id = useId();
+  const { shadow, glow, outline, fill } = value;
+  const update = <K extends keyof TextEffects>(key: K, changes: Partial<TextEffects[K]>) =>
+    onChange({ ...value, [key]: { ...value[key], ...changes } });
+  const extraGroups = useMemo(() => groupByCategory(listEffects()), []);
+  const toggleExtra = (effectId: string, enabled: boolean) => onChange({
+    ...value,
+    extras: enabled ? [...value.extras, effectId] : value.extras.filter((extra) => extra !== effectId),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <LabeledToggle
+          id={`${id}-shadow`}
+          label="Shadow"
+          checked={shadow.enabled}
+          onChange={(enabled) => update('shadow', { enabled })}
+        />
+        {shadow.enabled && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-shadow-color`} className="text-sm font-medium">Color</Label>
+              <div className="flex gap-2">
+                <ColorInput
+                  id={`${id}-shadow-color`}
+                  className="flex-1 min-w-0"
+                  value={shadow.color ?? schemeShadow}
+                  onChange={(color) => update('shadow', { color })}
+                />
+                {shadow.color !== undefined && (
+                  <Button variant="ghost" size="sm" className="shrink-0" onClick={() => update('shadow', { color: undefined })}>
+                    Use scheme
+                  </Button>
+                )}
+              </div>
+            </div>
+            <LabeledSlider
+              id={`${id}-shadow-blur`}
+              label="Blur"
+              value={shadow.blur}
+              min={0}
+              max={MAX_EFFECT_BLUR}
+              step={1}
+              format={px}
+              onChange={(blur) => update('shadow', { blur })}
+            />
+            <LabeledSlider
+              id={`${id}-shadow-x`}
+              label="Offset X"
+              value={shadow.offsetX}
+              min={-MAX_SHADOW_OFFSET}
+              max={MAX_SHADOW_OFFSET}
+              step={1}
+              format={px}
+              onChange={(offsetX) => update('shadow', { offsetX })}
+            />
+            <LabeledSlider
+              id={`${id}-shadow-y`}
+              label="Offset Y"
+              value={shadow.offsetY}
+              min={-MAX_SHADOW_OFFSET}
+              max={MAX_SHADOW_OFFSET}
+              step={1}
+              format={px}
+              onChange={(offsetY) => update('shadow', { offsetY })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <LabeledToggle
+          id={`${id}-glow`}
+          label="Outer glow"
+          checked={glow.enabled}
+          onChange={(enabled) => update('glow', { enabled })}
+        />
+        {glow.enabled && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-glow-color`} className="text-sm font-medium">Color</Label>
+              <ColorInput id={`${id}-glow-color`} value={glow.color} onChange={(color) => update('glow', { color })} />
+            </div>
+            <LabeledSlider
+              id={`${id}-glow-blur`}
+              label="Size"
+              value={glow.blur}
+              min={0}
+              max={MAX_EFFECT_BLUR}
+              step={1}
+              format={px}
+              onChange={(blur) => update('glow', { blur })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <LabeledToggle
+          id={`${id}-outline`}
+          label="Outline"
+          checked={outline.enabled}
+          onChange={(enabled) => update('outline', { enabled })}
+        />
+        {outline.enabled && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-outline-color`} className="text-sm font-medium">Color</Label>
+              <ColorInput
+                id={`${id}-outline-color`}
+                value={outline.color}
+                onChange={(color) => update('outline', { color })}
+              />
+            </div>
+            <LabeledSlider
+              id={`${id}-outline-width`}
+              label="Width"
+              value={outline.width}
+              min={0.01}
+              max={MAX_OUTLINE_WIDTH}
+              step={0.01}
+              format={(width) => `${width.toFixed(2)}em`}
+              onChange={(width) => update('outline', { width })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Fill</Label>
+          <Select value={fill.type} onValueChange={(type: TextFillType) => update('fill', { type })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FILL_TYPE_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {fill.type === 'gradient' && (
+          <GradientEditor
+            label="Gradient"
+            value={{ background: fill.colors, gradient: fill.gradient }}
+            onChange={({ background, gradient }) => update('fill', { colors: background, gradient })}
+          />
+        )}
+        {fill.type === 'pattern' && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Pattern</Label>
+              <Select value={fill.pattern} onValueChange={(pattern: TextPattern) => update('fill', { pattern })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PATTERN_LABELS).map(([pattern, label]) => (
+                    <SelectItem key={pattern} value={pattern}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${id}-pattern-color`} className="text-sm font-medium">Pattern color</Label>
+              <ColorInput
+                id={`${id}-pattern-color`}
+                value={fill.patternColor}
+                onChange={(patternColor) => update('fill', { patternColor })}
+              />
+            </div>
+            <LabeledSlider
+              id={`${id}-pattern-size`}
+              label="Tile size"
+              value={fill.patternSize}
+              min={MIN_PATTERN_SIZE}
+              max={MAX_PATTERN_SIZE}
+              step={1}
+              format={px}
+              onChange={(patternSize) => update('fill', { patternSize })}
+            />
+          </div>
+        )}
+        {fill.type !== 'gradient' && (
+          <p className="text-xs text-muted-foreground">
+            {fill.type === 'pattern' ? "Drawn over the scheme's text color" : "The color scheme's text color"}
+            <span className="inline-block w-3 h-3 ml-2 align-middle rounded-sm border" style={{ background: schemeText }} />
+          </p>
+        )}
+      </div>
+
+      {extraGroups.map(({ category, entries }) => (
+        <div key={category} className="space-y-3">
+          <p className="text-xs font-medium text-muted-foreground">{category}</p>
+          {entries.map((effect) => (
+            <div key={effect.id} className="flex items-center gap-2">
+              {effect.icon && <RegistryIcon path={effect.icon} />}
+              <div className="flex-1">
+                <LabeledToggle
+                  id={`${id}-extra-${effect.id}`}
+                  label={effect.label}
+                  checked={value.extras.includes(effect.id)}
+                  onChange={(enabled) => toggleExtra(effect.id, enabled)}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
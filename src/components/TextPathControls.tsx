@@ -0,0 +1,106 @@
+import { useId } from "react";
+import { CustomPathInput } from "@/components/CustomPathInput";
+import { LabeledSlider } from "@/components/LabeledSlider";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_ARC_SWEEP,
+  MIN_ARC_SWEEP,
+  type TextPath,
+  type TextPathMode,
+  type TextPathSide,
+} from "@/lib/render";
+
+const TEXT_PATH_MODE_LABELS: Record<TextPathMode, string> = {
+  off: 'Straight lines',
+  arc: 'Arc',
+  outline: 'Around the shape',
+  custom: 'Custom path',
+};
+
+const TEXT_PATH_SIDE_LABELS: Record<TextPathSide, string> = {
+  outside: 'Outside (reads along the top)',
+  inside: 'Inside (reads along the bottom)',
+};
+
+const degrees = (value: number) => `${Math.round(value)}°`;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface TextPathControlsProps {
+  value: TextPath;
+  onChange: (value: TextPath) => void;
+}
+
+/**
+ * Whether the text follows a path, which one and where it sits on it. Letter
+ * spacing and alignment along the path come from the typography settings.
+ */
+export const TextPathControls = ({ value, onChange }: TextPathControlsProps) => {
+  const id = useId();
+  const update = (changes: Partial<TextPath>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-mode`} className="text-sm font-medium">Text path</Label>
+        <Select value={value.mode} onValueChange={(mode: TextPathMode) => update({ mode })}>
+          <SelectTrigger id={`${id}-mode`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TEXT_PATH_MODE_LABELS).map(([mode, label]) => (
+              <SelectItem key={mode} value={mode}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.mode !== 'off' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-side`} className="text-sm font-medium">Side</Label>
+            <Select value={value.side} onValueChange={(side: TextPathSide) => update({ side })}>
+              <SelectTrigger id={`${id}-side`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TEXT_PATH_SIDE_LABELS).map(([side, label]) => (
+                  <SelectItem key={side} value={side}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <LabeledSlider
+            id={`${id}-offset`}
+            label="Start offset"
+            value={value.startOffset}
+            min={-0.5}
+            max={0.5}
+            step={0.01}
+            format={percent}
+            onChange={(startOffset) => update({ startOffset })}
+          />
+          {value.mode === 'arc' && (
+            <LabeledSlider
+              id={`${id}-sweep`}
+              label="Arc angle"
+              value={value.sweep}
+              min={MIN_ARC_SWEEP}
+              max={MAX_ARC_SWEEP}
+              step={1}
+              format={degrees}
+              onChange={(sweep) => update({ sweep })}
+            />
+          )}
+        </div>
+      )}
+      {value.mode === 'custom' && (
+        <CustomPathInput
+          value={value.path}
+          onChange={(path) => update({ path })}
+          hint="Scaled to fit the text box. Text follows the longest subpath in the direction it is drawn."
+          placeholder="M 0 100 C 30 0 70 0 100 100"
+        />
+      )}
+    </div>
+  );
+};
@@ -1,184 +1,250 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useMemo, useEffect } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Copy, Download, Image as ImageIcon, ChevronDown } from "lucide-react";
+import { Copy, Download, Image as ImageIcon, ChevronDown, FileDown, FileUp, Link as LinkIcon, Upload } from "lucide-react";
 import { toast } from "sonner";
-
-type ImageFormat = 'png' | 'jpeg';
-type ImageSize = '256' | '512' | '1024' | 'custom';
-type ColorScheme = 'purple' | 'blue' | 'green' | 'orange' | 'dark' | 'light';
-type ImageShape = 'rectangle' | 'rounded' | 'circle' | 'rhombus' | 'triangle' | 'hexagon' | 'star' | 'heart';
-
-interface CustomSize {
-  width: number;
-  height: number;
+import { CalligramControls } from "@/components/CalligramControls";
+import { ColorInput } from "@/components/ColorInput";
+import { ColorSchemePicker } from "@/components/ColorSchemePicker";
+import { ContrastCheck } from "@/components/ContrastCheck";
+import { ShapeParamsControls } from "@/components/ShapeParamsControls";
+import { ShapeSelect } from "@/components/ShapeSelect";
+import { ShapeStyleControls } from "@/components/ShapeStyleControls";
+import { TextEffectsControls } from "@/components/TextEffectsControls";
+import { TextPathControls } from "@/components/TextPathControls";
+import { GradientEditor, type GradientValue } from "@/components/GradientEditor";
+import { TypographyControls } from "@/components/TypographyControls";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { editableColorScheme } from "@/lib/color-scheme-library";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_FONT_SIZING,
+  DEFAULT_TEXT_ART_SPEC,
+  DESIGN_PARAM,
+  DESIGN_ROUTE,
+  FONT_UPLOAD_EXTENSIONS,
+  MAX_DIMENSION,
+  MAX_FONT_SIZE,
+  MAX_TEXT_LENGTH,
+  MIN_DIMENSION,
+  MIN_FONT_SIZE,
+  TEXT_ART_SPEC_VERSION,
+  TextArtSpecError,
+  buildDesignSearch,
+  buildDesignUrl,
+  decodeSpecParam,
+  getFont,
+  listFonts,
+  parseColor,
+  parseTextArtSpec,
+  parseTextArtSpecJson,
+  registerUploadedFont,
+  renderImageBlob,
+  renderPreview,
+  requiredRatio,
+  serializeTextArtSpec,
+  suggestOutline,
+  suggestTextColor,
+  textArtSpecSchema,
+  toRenderSpec,
+  type Calligram,
+  type ColorScheme,
+  type ContrastReport,
+  type CustomColorScheme,
+  type CustomSize,
+  type FontOption,
+  type FontSizing,
+  type ImageFormat,
+  type ImageShape,
+  type OutsideBackground,
+  type OutsideBackgroundType,
+  type ShapeParams,
+  type ShapeStyle,
+  type ImageSize,
+  type TextArtSpec,
+  type TextEffects,
+  type TextPath,
+  type Typography,
+} from "@/lib/render";
+
+const DEFAULT_SEARCH = buildDesignSearch(DEFAULT_TEXT_ART_SPEC);
+const PREVIEW_DEBOUNCE_MS = 150;
+const PREVIEW_MAX_SIZE = 512;
+
+interface GeneratedImage {
+  blob: Blob;
+  url: string;
 }
 
-interface ColorSchemeConfig {
-  background: string[];
-  text: string;
-}
-
-const COLOR_SCHEMES: Record<ColorScheme, ColorSchemeConfig> = {
-  purple: { background: ['#8b5cf6', '#a855f7'], text: '#ffffff' },
-  blue: { background: ['#3b82f6', '#1d4ed8'], text: '#ffffff' },
-  green: { background: ['#10b981', '#059669'], text: '#ffffff' },
-  orange: { background: ['#f97316', '#ea580c'], text: '#ffffff' },
-  dark: { background: ['#1f2937', '#111827'], text: '#ffffff' },
-  light: { background: ['#f8fafc', '#e2e8f0'], text: '#1f2937' }
-};
+const readSpecFromSearch = (searchParams: URLSearchParams) => {
+  const param = searchParams.get(DESIGN_PARAM);
+  if (!param) return { spec: DEFAULT_TEXT_ART_SPEC, error: null };
 
-interface ShapeConfig {
-  clipFunction: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
-  textArea: (width: number, height: number) => { width: number; height: number; offsetX: number; offsetY: number; fontScale: number };
-}
-
-const SHAPE_OPTIONS: Record<ImageShape, ShapeConfig> = {
-  rectangle: {
-    clipFunction: () => {}, // No clipping needed
-    textArea: (width, height) => ({ width: width * 0.8, height: height * 0.8, offsetX: 0, offsetY: 0, fontScale: 1 })
-  },
-  rounded: {
-    clipFunction: (ctx, width, height) => {
-      ctx.beginPath();
-      ctx.roundRect(0, 0, width, height, 16);
-      ctx.clip();
-    },
-    textArea: (width, height) => ({ width: width * 0.8, height: height * 0.8, offsetX: 0, offsetY: 0, fontScale: 1 })
-  },
-  circle: {
-    clipFunction: (ctx, width, height) => {
-      const radius = Math.min(width, height) / 2;
-      const centerX = width / 2;
-      const centerY = height / 2;
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-      ctx.clip();
-    },
-    textArea: (width, height) => {
-      // Inscribed square in circle
-      const diameter = Math.min(width, height);
-      const textSize = diameter * 0.7; // √2/2 ≈ 0.707
-      return { width: textSize, height: textSize, offsetX: 0, offsetY: 0, fontScale: 0.9 };
-    }
-  },
-  rhombus: {
-    clipFunction: (ctx, width, height) => {
-      ctx.beginPath();
-      ctx.moveTo(width / 2, 0);
-      ctx.lineTo(width, height / 2);
-      ctx.lineTo(width / 2, height);
-      ctx.lineTo(0, height / 2);
-      ctx.closePath();
-      ctx.clip();
-    },
-    textArea: (width, height) => ({ width: width * 0.5, height: height * 0.5, offsetX: 0, offsetY: 0, fontScale: 0.8 })
-  },
-  triangle: {
-    clipFunction: (ctx, width, height) => {
-      ctx.beginPath();
-      ctx.moveTo(width / 2, 0);
-      ctx.lineTo(width, height);
-      ctx.lineTo(0, height);
-      ctx.closePath();
-      ctx.clip();
-    },
-    textArea: (width, height) => ({ width: width * 0.6, height: height * 0.4, offsetX: 0, offsetY: height * 0.15, fontScale: 0.7 })
-  },
-  hexagon: {
-    clipFunction: (ctx, width, height) => {
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const radius = Math.min(width, height) / 2;
-      ctx.beginPath();
-      for (let i = 0; i < 6; i++) {
-        const angle = (i * Math.PI) / 3;
-        const x = centerX + radius * Math.cos(angle);
-        const y = centerY + radius * Math.sin(angle);
-        if (i === 0) ctx.moveTo(x, y);
-        else ctx.lineTo(x, y);
-      }
-      ctx.closePath();
-      ctx.clip();
-    },
-    textArea: (width, height) => {
-      const size = Math.min(width, height) * 0.65;
-      return { width: size, height: size, offsetX: 0, offsetY: 0, fontScale: 0.85 };
-    }
-  },
-  star: {
-    clipFunction: (ctx, width, height) => {
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const outerRadius = Math.min(width, height) / 2;
-      const innerRadius = outerRadius * 0.4;
-      ctx.beginPath();
-      for (let i = 0; i < 10; i++) {
-        const angle = (i * Math.PI) / 5;
-        const radius = i % 2 === 0 ? outerRadius : innerRadius;
-        const x = centerX + radius * Math.cos(angle - Math.PI / 2);
-        const y = centerY + radius * Math.sin(angle - Math.PI / 2);
-        if (i === 0) ctx.moveTo(x, y);
-        else ctx.lineTo(x, y);
-      }
-      ctx.closePath();
-      ctx.clip();
-    },
-    textArea: (width, height) => {
-      const size = Math.min(width, height) * 0.35;
-      return { width: size, height: size, offsetX: 0, offsetY: 0, fontScale: 0.6 };
-    }
-  },
-  heart: {
-    clipFunction: (ctx, width, height) => {
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const size = Math.min(width, height) * 0.8;
-      const scale = size / 100;
-      
-      ctx.beginPath();
-      ctx.moveTo(centerX, centerY + (15 * scale));
-      ctx.bezierCurveTo(centerX, centerY + (12 * scale), centerX - (8 * scale), centerY - (5 * scale), centerX - (25 * scale), centerY - (5 * scale));
-      ctx.bezierCurveTo(centerX - (35 * scale), centerY - (5 * scale), centerX - (35 * scale), centerY + (5 * scale), centerX - (35 * scale), centerY + (5 * scale));
-      ctx.bezierCurveTo(centerX - (35 * scale), centerY + (15 * scale), centerX - (25 * scale), centerY + (25 * scale), centerX, centerY + (40 * scale));
-      ctx.bezierCurveTo(centerX + (25 * scale), centerY + (25 * scale), centerX + (35 * scale), centerY + (15 * scale), centerX + (35 * scale), centerY + (5 * scale));
-      ctx.bezierCurveTo(centerX + (35 * scale), centerY + (5 * scale), centerX + (35 * scale), centerY - (5 * scale), centerX + (25 * scale), centerY - (5 * scale));
-      ctx.bezierCurveTo(centerX + (8 * scale), centerY - (5 * scale), centerX, centerY + (12 * scale), centerX, centerY + (15 * scale));
-      ctx.closePath();
-      ctx.clip();
-    },
-    textArea: (width, height) => {
-      const size = Math.min(width, height) * 0.4;
-      return { width: size, height: size * 0.6, offsetX: 0, offsetY: -height * 0.05, fontScale: 0.7 };
-    }
+  try {
+    return { spec: decodeSpecParam(param), error: null };
+  } catch (error) {
+    return { spec: DEFAULT_TEXT_ART_SPEC, error: error instanceof TextArtSpecError ? error : null };
   }
 };
 
 export const TextToImageGenerator = () => {
-  const [text, setText] = useState("");
-  const [imageFormat, setImageFormat] = useState<ImageFormat>('png');
-  const [imageSize, setImageSize] = useState<ImageSize>('256');
-  const [customSize, setCustomSize] = useState<CustomSize>({ width: 256, height: 256 });
-  const [colorScheme, setColorScheme] = useState<ColorScheme>('purple');
-  const [imageShape, setImageShape] = useState<ImageShape>('rounded');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [initial] = useState(() => readSpecFromSearch(searchParams));
+
+  const [text, setText] = useState(initial.spec.text);
+  const [isMultiline, setIsMultiline] = useState(initial.spec.text.includes('\n'));
+  const [imageFormat, setImageFormat] = useState<ImageFormat>(initial.spec.format);
+  const [imageSize, setImageSize] = useState<ImageSize>(initial.spec.size);
+  const [customSize, setCustomSize] = useState<CustomSize>(initial.spec.customSize ?? { width: 256, height: 256 });
+  const [colorScheme, setColorScheme] = useState<ColorScheme>(initial.spec.colorScheme);
+  const [customColorScheme, setCustomColorScheme] = useState<CustomColorScheme | null>(initial.spec.customColorScheme ?? null);
+  const [imageShape, setImageShape] = useState<ImageShape>(initial.spec.shape);
+  const [shapeParams, setShapeParams] = useState<ShapeParams>(initial.spec.shapeParams);
+  const [shapeStyle, setShapeStyle] = useState<ShapeStyle>(initial.spec.shapeStyle);
+  const [outsideBackground, setOutsideBackground] = useState<OutsideBackground>(initial.spec.outsideBackground);
+  const [matteColor, setMatteColor] = useState(initial.spec.matteColor);
+  const [calligram, setCalligram] = useState<Calligram>(initial.spec.calligram);
+  const [textPath, setTextPath] = useState<TextPath>(initial.spec.textPath);
+  const [fontSize, setFontSize] = useState<FontSizing>(initial.spec.fontSize);
+  const [fontFamily, setFontFamily] = useState(initial.spec.fontFamily);
+  const [fonts, setFonts] = useState<FontOption[]>(listFonts);
+  const [typography, setTypography] = useState<Typography>(initial.spec.typography);
+  const [effects, setEffects] = useState<TextEffects>(initial.spec.effects);
+  const [hyphenate, setHyphenate] = useState(initial.spec.hyphenate);
   const [isOptionsOpen, setIsOptionsOpen] = useState(false);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [generatedImage, setGeneratedImage] = useState<GeneratedImage | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [hasPreview, setHasPreview] = useState(false);
+  const [contrast, setContrast] = useState<ContrastReport | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const latestSpecRef = useRef<TextArtSpec | null>(null);
+  const designInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+
+  const spec = useMemo<TextArtSpec>(() => ({
+    version: TEXT_ART_SPEC_VERSION,
+    text,
+    format: imageFormat,
+    size: imageSize,
+    ...(imageSize === 'custom' && { customSize }),
+    colorScheme,
+    ...(colorScheme === 'custom' && { customColorScheme }),
+    shape: imageShape,
+    shapeParams,
+    shapeStyle,
+    outsideBackground,
+    matteColor,
+    calligram,
+    textPath,
+    fontSize,
+    fontFamily,
+    typography,
+    effects,
+    hyphenate,
+  }), [text, imageFormat, imageSize, customSize, colorScheme, customColorScheme, imageShape, shapeParams, shapeStyle, outsideBackground, matteColor, calligram, textPath, fontSize, fontFamily, typography, effects, hyphenate]);
+
+  const applySpec = useCallback((next: TextArtSpec) => {
+    setText(next.text);
+    if (next.text.includes('\n')) setIsMultiline(true);
+    setImageFormat(next.format);
+    setImageSize(next.size);
+    if (next.customSize) setCustomSize(next.customSize);
+    setColorScheme(next.colorScheme);
+    if (next.customColorScheme) setCustomColorScheme(next.customColorScheme);
+    setImageShape(next.shape);
+    setShapeParams(next.shapeParams);
+    setShapeStyle(next.shapeStyle);
+    setOutsideBackground(next.outsideBackground);
+    setMatteColor(next.matteColor);
+    setCalligram(next.calligram);
+    setTextPath(next.textPath);
+    setFontSize(next.fontSize);
+    setFontFamily(next.fontFamily);
+    setTypography(next.typography);
+    setEffects(next.effects);
+    setHyphenate(next.hyphenate);
+  }, []);
+
+  useEffect(() => {
+    if (initial.error) {
+      toast.error("This design link is invalid", { description: initial.error.issues.join('\n') });
+    }
+  }, [initial]);
+
+  // Keep the URL in sync so it can be shared as a permalink at any time
+  useEffect(() => {
+    if (!textArtSpecSchema.safeParse(spec).success) return;
+
+    const search = buildDesignSearch(spec);
+    if (search === location.search) return;
+    if (location.pathname !== DESIGN_ROUTE && search === DEFAULT_SEARCH) return;
 
-  const getSizeDimensions = useCallback(() => {
-    switch (imageSize) {
-      case '256': return { width: 256, height: 256 };
-      case '512': return { width: 512, height: 512 };
-      case '1024': return { width: 1024, height: 1024 };
-      case 'custom': return customSize;
-      default: return { width: 256, height: 256 };
+    navigate({ pathname: DESIGN_ROUTE, search }, { replace: true });
+  }, [spec, location.pathname, location.search, navigate]);
+
+  // A generated image only belongs to the options it was generated from
+  useEffect(() => {
+    latestSpecRef.current = spec;
+    setGeneratedImage(null);
+  }, [spec]);
+
+  useEffect(() => () => {
+    if (generatedImage) URL.revokeObjectURL(generatedImage.url);
+  }, [generatedImage]);
+
+  // Live preview: drawn in the render worker at display resolution, skipping
+  // the encode step that the final output needs, then copied onto a visible canvas
+  const previewSpec = useDebouncedValue(spec, PREVIEW_DEBOUNCE_MS);
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    if (!canvas) return;
+
+    const result = textArtSpecSchema.safeParse(previewSpec);
+    if (!result.success || !previewSpec.text.trim()) {
+      setHasPreview(false);
+      setContrast(null);
+      return;
     }
-  }, [imageSize, customSize]);
+
+    // Previews for options that have since changed are dropped, not drawn
+    let cancelled = false;
+    const renderSpec = toRenderSpec(result.data);
+    const displayScale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(renderSpec.width, renderSpec.height));
+    renderPreview(renderSpec, displayScale * window.devicePixelRatio)
+      .then((preview) => {
+        if (!preview) return;
+        const { image, contrast } = preview;
+        if (!cancelled) {
+          canvas.width = image.width;
+          canvas.height = image.height;
+          canvas.getContext('2d')?.drawImage(image, 0, 0);
+          canvas.style.width = `${renderSpec.width * displayScale}px`;
+          setHasPreview(true);
+          setContrast(contrast);
+        }
+        if ('close' in image) image.close();
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error rendering preview:', error);
+        setHasPreview(false);
+        setContrast(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewSpec]);
 
   const generateImage = useCallback(async () => {
     if (!text.trim()) {
@@ -189,99 +255,31 @@ export const TextToImageGenerator = () => {
     setIsGenerating(true);
     
     try {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-
-      const dimensions = getSizeDimensions();
-      canvas.width = dimensions.width;
-      canvas.height = dimensions.height;
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      const scheme = COLOR_SCHEMES[colorScheme];
-      const shapeConfig = SHAPE_OPTIONS[imageShape];
-      const textAreaConfig = shapeConfig.textArea(dimensions.width, dimensions.height);
+      // Rendered in a worker where possible; the hidden canvas is the fallback
+      const blob = await renderImageBlob(toRenderSpec(parseTextArtSpec(spec)), canvasRef.current ?? undefined);
 
-      // Apply shape clipping
-      shapeConfig.clipFunction(ctx, dimensions.width, dimensions.height);
+      // Options changed while rendering, so this result is already stale
+      if (latestSpecRef.current !== spec) return;
 
-      // Create gradient background
-      const gradient = ctx.createLinearGradient(0, 0, dimensions.width, dimensions.height);
-      gradient.addColorStop(0, scheme.background[0]);
-      gradient.addColorStop(1, scheme.background[1]);
-      
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, dimensions.width, dimensions.height);
-
-      // Configure text styling with shape-specific scaling
-      const baseFontSize = Math.min(dimensions.width, dimensions.height) / 10;
-      const fontSize = baseFontSize * textAreaConfig.fontScale;
-      ctx.font = `bold ${fontSize}px Inter, system-ui, sans-serif`;
-      ctx.fillStyle = scheme.text;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-
-      // Add text shadow for better readability
-      ctx.shadowColor = scheme.text === '#ffffff' ? 'rgba(0, 0, 0, 0.5)' : 'rgba(255, 255, 255, 0.5)';
-      ctx.shadowBlur = 4;
-      ctx.shadowOffsetX = 2;
-      ctx.shadowOffsetY = 2;
-
-      // Word wrap functionality with shape-specific max width
-      const words = text.split(' ');
-      const lines: string[] = [];
-      let currentLine = '';
-      const maxWidth = textAreaConfig.width;
-
-      for (const word of words) {
-        const testLine = currentLine + (currentLine ? ' ' : '') + word;
-        const metrics = ctx.measureText(testLine);
-        
-        if (metrics.width > maxWidth && currentLine) {
-          lines.push(currentLine);
-          currentLine = word;
-        } else {
-          currentLine = testLine;
-        }
-      }
-      if (currentLine) {
-        lines.push(currentLine);
-      }
-
-      // Draw text lines with shape-specific positioning
-      const lineHeight = fontSize * 1.2;
-      const totalHeight = lines.length * lineHeight;
-      const centerX = dimensions.width / 2 + textAreaConfig.offsetX;
-      const centerY = dimensions.height / 2 + textAreaConfig.offsetY;
-      const startY = centerY - totalHeight / 2 + fontSize / 2;
-
-      lines.forEach((line, index) => {
-        const y = startY + index * lineHeight;
-        ctx.fillText(line, centerX, y);
-      });
-
-      // Convert canvas to image
-      const imageData = canvas.toDataURL(`image/${imageFormat}`, 0.9);
-      setGeneratedImage(imageData);
-      
+      setGeneratedImage({ blob, url: URL.createObjectURL(blob) });
       toast.success("Image generated successfully!");
     } catch (error) {
-      console.error('Error generating image:', error);
-      toast.error("Failed to generate image");
+      if (error instanceof TextArtSpecError) {
+        toast.error("Invalid options", { description: error.issues.join('\n') });
+      } else {
+        console.error('Error generating image:', error);
+        toast.error("Failed to generate image");
+      }
     } finally {
       setIsGenerating(false);
     }
-  }, [text, imageFormat, getSizeDimensions, colorScheme, imageShape]);
+  }, [text, spec]);
 
   const copyToClipboard = useCallback(async () => {
     if (!generatedImage) return;
 
     try {
-      // Convert data URL to blob
-      const response = await fetch(generatedImage);
-      const blob = await response.blob();
-      
+      const { blob } = generatedImage;
       await navigator.clipboard.write([
         new ClipboardItem({ [blob.type]: blob })
       ]);
@@ -298,14 +296,115 @@ export const TextToImageGenerator = () => {
 
     const link = document.createElement('a');
     link.download = `text-image.${imageFormat}`;
-    link.href = generatedImage;
+    link.href = generatedImage.url;
     link.click();
     
     toast.success("Image downloaded!");
   }, [generatedImage, imageFormat]);
 
+  const saveDesign = useCallback(() => {
+    try {
+      const blob = new Blob([serializeTextArtSpec(spec)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = 'design.textart.json';
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success("Design saved!");
+    } catch (error) {
+      if (error instanceof TextArtSpecError) {
+        toast.error("Cannot save an invalid design", { description: error.issues.join('\n') });
+      } else {
+        console.error('Error saving design:', error);
+        toast.error("Failed to save design");
+      }
+    }
+  }, [spec]);
+
+  const loadDesign = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      applySpec(parseTextArtSpecJson(await file.text()));
+      toast.success("Design loaded!");
+    } catch (error) {
+      if (error instanceof TextArtSpecError) {
+        toast.error(`Could not load ${file.name}`, { description: error.issues.join('\n') });
+      } else {
+        console.error('Error loading design:', error);
+        toast.error("Failed to load design");
+      }
+    }
+  }, [applySpec]);
+
+  const uploadFont = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const font = await registerUploadedFont(file);
+      setFonts(listFonts());
+      setFontFamily(font.family);
+      toast.success(`Font "${font.label}" added`, {
+        description: "Uploaded fonts are kept for this session only.",
+      });
+    } catch (error) {
+      console.error('Error loading font:', error);
+      toast.error(`Could not load ${file.name}`, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, []);
+
+  const copyDesignLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(buildDesignUrl(parseTextArtSpec(spec)));
+      toast.success("Design link copied to clipboard!");
+    } catch (error) {
+      if (error instanceof TextArtSpecError) {
+        toast.error("Cannot link an invalid design", { description: error.issues.join('\n') });
+      } else {
+        console.error('Error copying design link:', error);
+        toast.error("Failed to copy design link");
+      }
+    }
+  }, [spec]);
+
+  const changeColorScheme = useCallback((next: ColorScheme, custom?: CustomColorScheme) => {
+    setColorScheme(next);
+    if (custom) setCustomColorScheme(custom);
+  }, []);
+
+  // Editing the gradient of a built-in scheme turns it into a custom copy
+  const editedScheme = useMemo(() => editableColorScheme(colorScheme, customColorScheme), [colorScheme, customColorScheme]);
+  const changeGradient = useCallback((value: GradientValue) => {
+    changeColorScheme('custom', { ...editedScheme, ...value });
+  }, [changeColorScheme, editedScheme]);
+
+  // With an outline the fill only has to stand out from the outline
+  const fixTextColor = useCallback(() => {
+    if (!contrast) return;
+    const against = effects.outline.enabled ? [parseColor(effects.outline.color)] : contrast.backgrounds;
+    const text = suggestTextColor(editedScheme.text, against, requiredRatio('AA', contrast.largeText));
+    changeColorScheme('custom', { ...editedScheme, text });
+    // The suggestion is for a flat fill, so gradients and patterns give way to it
+    setEffects((current) => ({ ...current, fill: { ...current.fill, type: 'solid' } }));
+  }, [changeColorScheme, contrast, editedScheme, effects.outline]);
+
+  const toggleMultiline = useCallback((checked: boolean) => {
+    setIsMultiline(checked);
+    // A single-line input cannot show line breaks, so fold them into spaces
+    if (!checked) setText((current) => current.replace(/\s*\n\s*/g, ' '));
+  }, []);
+
+  const isFontAvailable = getFont(fontFamily) !== undefined;
   const characterCount = text.length;
-  const isTextValid = characterCount > 0 && characterCount <= 128;
+  const isTextValid = characterCount > 0 && characterCount <= MAX_TEXT_LENGTH;
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
@@ -327,22 +426,42 @@ export const TextToImageGenerator = () => {
 
           {/* Text Input */}
           <div className="space-y-2">
-            <Label htmlFor="text-input" className="text-sm font-medium">
-              Enter your text (max 128 characters)
-            </Label>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="text-input" className="text-sm font-medium">
+                Enter your text (max {MAX_TEXT_LENGTH} characters)
+              </Label>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="multiline" className="text-xs text-muted-foreground">Multi-line</Label>
+                <Switch id="multiline" checked={isMultiline} onCheckedChange={toggleMultiline} />
+              </div>
+            </div>
             <div className="relative">
-              <Input
-                id="text-input"
-                value={text}
-                onChange={(e) => setText(e.target.value)}
-                placeholder="Enter text to convert to image..."
-                maxLength={128}
-                className="pr-16"
-              />
-              <div className={`absolute right-3 top-1/2 -translate-y-1/2 text-xs ${
-                characterCount > 128 ? 'text-destructive' : 'text-muted-foreground'
+              {isMultiline ? (
+                <Textarea
+                  id="text-input"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder="Enter text to convert to image... Press Enter for a new line, leave a blank line between paragraphs."
+                  maxLength={MAX_TEXT_LENGTH}
+                  rows={4}
+                  className="pr-16 resize-none"
+                />
+              ) : (
+                <Input
+                  id="text-input"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder="Enter text to convert to image..."
+                  maxLength={MAX_TEXT_LENGTH}
+                  className="pr-16"
+                />
+              )}
+              <div className={`absolute right-3 text-xs ${
+                isMultiline ? 'bottom-2' : 'top-1/2 -translate-y-1/2'
+              } ${
+                characterCount > MAX_TEXT_LENGTH ? 'text-destructive' : 'text-muted-foreground'
               }`}>
-                {characterCount}/128
+                {characterCount}/{MAX_TEXT_LENGTH}
               </div>
             </div>
           </div>
@@ -387,43 +506,148 @@ export const TextToImageGenerator = () => {
                   </Select>
                 </div>
 
+                <ColorSchemePicker
+                  colorScheme={colorScheme}
+                  customColorScheme={customColorScheme}
+                  onChange={changeColorScheme}
+                />
+
+                <ShapeSelect value={imageShape} params={shapeParams} onChange={setImageShape} />
+
                 <div className="space-y-2">
-                  <Label className="text-sm font-medium">Color Scheme</Label>
-                  <Select value={colorScheme} onValueChange={(value: ColorScheme) => setColorScheme(value)}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="purple">Purple Gradient</SelectItem>
-                      <SelectItem value="blue">Blue Ocean</SelectItem>
-                      <SelectItem value="green">Green Nature</SelectItem>
-                      <SelectItem value="orange">Orange Sunset</SelectItem>
-                      <SelectItem value="dark">Dark Mode</SelectItem>
-                      <SelectItem value="light">Light & Clean</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label className="text-sm font-medium">Outside Shape</Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={outsideBackground.type}
+                      onValueChange={(type: OutsideBackgroundType) => setOutsideBackground({ ...outsideBackground, type })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="transparent">Transparent</SelectItem>
+                        <SelectItem value="solid">Solid color</SelectItem>
+                        <SelectItem value="scheme">Color scheme</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {outsideBackground.type === 'solid' && (
+                      <ColorInput
+                        value={outsideBackground.color}
+                        onChange={(color) => setOutsideBackground({ ...outsideBackground, color })}
+                        aria-label="Outside shape color"
+                        className="flex-1 min-w-0"
+                      />
+                    )}
+                  </div>
+                </div>
+
+                {imageFormat === 'jpeg' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="matte-color" className="text-sm font-medium">JPEG Matte</Label>
+                    <ColorInput id="matte-color" value={matteColor} onChange={setMatteColor} />
+                    <p className="text-xs text-muted-foreground">
+                      JPEG cannot be transparent, so transparent areas are filled with this color.
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Font</Label>
+                  <div className="flex gap-2">
+                    <Select value={fontFamily} onValueChange={setFontFamily}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fonts.map((font) => (
+                          <SelectItem key={font.family} value={font.family}>{font.label}</SelectItem>
+                        ))}
+                        {!isFontAvailable && (
+                          <SelectItem value={fontFamily}>{fontFamily} (not available)</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => fontInputRef.current?.click()}
+                      variant="outline"
+                      size="icon"
+                      className="shrink-0"
+                      aria-label="Upload font"
+                      title="Upload font (TTF, OTF or WOFF2)"
+                    >
+                      <Upload className="w-4 h-4" />
+                    </Button>
+                    <input
+                      ref={fontInputRef}
+                      type="file"
+                      accept={FONT_UPLOAD_EXTENSIONS.join(',')}
+                      onChange={uploadFont}
+                      className="hidden"
+                    />
+                  </div>
+                  {!isFontAvailable && (
+                    <p className="text-xs text-muted-foreground">
+                      This design uses a font that was uploaded elsewhere. Upload it again or pick another font.
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
-                  <Label className="text-sm font-medium">Shape</Label>
-                  <Select value={imageShape} onValueChange={(value: ImageShape) => setImageShape(value)}>
+                  <Label className="text-sm font-medium">Font Size</Label>
+                  <Select
+                    value={fontSize.mode}
+                    onValueChange={(value: FontSizing['mode']) => setFontSize(
+                      value === 'auto' ? DEFAULT_FONT_SIZING : { mode: 'fixed', size: 32 }
+                    )}
+                  >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="rectangle">Rectangle</SelectItem>
-                      <SelectItem value="rounded">Rounded Rectangle</SelectItem>
-                      <SelectItem value="circle">Circle</SelectItem>
-                      <SelectItem value="rhombus">Rhombus</SelectItem>
-                      <SelectItem value="triangle">Triangle</SelectItem>
-                      <SelectItem value="hexagon">Hexagon</SelectItem>
-                      <SelectItem value="star">Star</SelectItem>
-                      <SelectItem value="heart">Heart</SelectItem>
+                      <SelectItem value="auto">Auto-fit</SelectItem>
+                      <SelectItem value="fixed">Fixed</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
+              {/* Font Size Inputs */}
+              {fontSize.mode === 'auto' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Min font size (px)</Label>
+                    <Input
+                      type="number"
+                      value={fontSize.min}
+                      onChange={(e) => setFontSize({ ...fontSize, min: parseInt(e.target.value) || MIN_FONT_SIZE })}
+                      min={MIN_FONT_SIZE}
+                      max={MAX_FONT_SIZE}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Max font size (px)</Label>
+                    <Input
+                      type="number"
+                      value={fontSize.max}
+                      onChange={(e) => setFontSize({ ...fontSize, max: parseInt(e.target.value) || MAX_FONT_SIZE })}
+                      min={MIN_FONT_SIZE}
+                      max={MAX_FONT_SIZE}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Font size (px)</Label>
+                  <Input
+                    type="number"
+                    value={fontSize.size}
+                    onChange={(e) => setFontSize({ mode: 'fixed', size: parseInt(e.target.value) || MIN_FONT_SIZE })}
+                    min={MIN_FONT_SIZE}
+                    max={MAX_FONT_SIZE}
+                  />
+                </div>
+              )}
+
               {/* Custom Size Inputs */}
               {imageSize === 'custom' && (
                 <div className="grid grid-cols-2 gap-4">
@@ -433,8 +657,8 @@ export const TextToImageGenerator = () => {
                       type="number"
                       value={customSize.width}
                       onChange={(e) => setCustomSize(prev => ({ ...prev, width: parseInt(e.target.value) || 256 }))}
-                      min="100"
-                      max="2048"
+                      min={MIN_DIMENSION}
+                      max={MAX_DIMENSION}
                     />
                   </div>
                   <div className="space-y-2">
@@ -443,12 +667,60 @@ export const TextToImageGenerator = () => {
                       type="number"
                       value={customSize.height}
                       onChange={(e) => setCustomSize(prev => ({ ...prev, height: parseInt(e.target.value) || 256 }))}
-                      min="100"
-                      max="2048"
+                      min={MIN_DIMENSION}
+                      max={MAX_DIMENSION}
                     />
                   </div>
                 </div>
               )}
+
+              <GradientEditor value={editedScheme} onChange={changeGradient} />
+
+              <ShapeParamsControls shape={imageShape} value={shapeParams} onChange={setShapeParams} />
+
+              <TextPathControls value={textPath} onChange={setTextPath} />
+
+              {/* Text on a path takes the place of the calligram */}
+              {textPath.mode === 'off' && <CalligramControls value={calligram} onChange={setCalligram} />}
+
+              <ShapeStyleControls value={shapeStyle} onChange={setShapeStyle} />
+
+              <TypographyControls value={typography} onChange={setTypography} />
+
+              <TextEffectsControls
+                value={effects}
+                onChange={setEffects}
+                schemeText={editedScheme.text}
+                schemeShadow={editedScheme.shadow}
+              />
+
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="hyphenate" className="text-sm font-medium">Hyphenate long words</Label>
+                <Switch id="hyphenate" checked={hyphenate} onCheckedChange={setHyphenate} />
+              </div>
+
+              {/* Design Files */}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={saveDesign} variant="outline" className="flex-1">
+                  <FileDown className="w-4 h-4 mr-2" />
+                  Save Design
+                </Button>
+                <Button onClick={() => designInputRef.current?.click()} variant="outline" className="flex-1">
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Load Design
+                </Button>
+                <Button onClick={copyDesignLink} variant="outline" className="flex-1">
+                  <LinkIcon className="w-4 h-4 mr-2" />
+                  Copy Link
+                </Button>
+                <input
+                  ref={designInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={loadDesign}
+                  className="hidden"
+                />
+              </div>
             </CollapsibleContent>
           </Collapsible>
 
@@ -463,36 +735,45 @@ export const TextToImageGenerator = () => {
             {isGenerating ? "Generating..." : "Generate Image"}
           </Button>
 
-          {/* Generated Image Display */}
-          {generatedImage && (
-            <div className="space-y-4">
-              <div className="text-center">
-                <img
-                  src={generatedImage}
-                  alt="Generated text image"
-                  className="max-w-full h-auto rounded-lg shadow-card mx-auto"
+          {/* Live Preview */}
+          <div className={cn("text-center", !hasPreview && "hidden")}>
+            <canvas
+              ref={previewCanvasRef}
+              aria-label="Preview of the text image"
+              className="max-w-full h-auto rounded-lg shadow-card mx-auto bg-checkerboard"
+            />
+            {contrast && (
+              <div className="mt-3">
+                <ContrastCheck
+                  report={contrast}
+                  hasOutline={effects.outline.enabled}
+                  onFixTextColor={fixTextColor}
+                  onAddOutline={() => setEffects({ ...effects, outline: suggestOutline(editedScheme.text) })}
+                  onRemoveOutline={() => setEffects({ ...effects, outline: { ...effects.outline, enabled: false } })}
                 />
               </div>
-              
-              {/* Action Buttons */}
-              <div className="flex flex-col sm:flex-row gap-2">
-                <Button
-                  onClick={copyToClipboard}
-                  variant="outline"
-                  className="flex-1"
-                >
-                  <Copy className="w-4 h-4 mr-2" />
-                  Copy to Clipboard
-                </Button>
-                <Button
-                  onClick={downloadImage}
-                  variant="outline"
-                  className="flex-1"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Download
-                </Button>
-              </div>
+            )}
+          </div>
+
+          {/* Action Buttons */}
+          {generatedImage && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button
+                onClick={copyToClipboard}
+                variant="outline"
+                className="flex-1"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy to Clipboard
+              </Button>
+              <Button
+                onClick={downloadImage}
+                variant="outline"
+                className="flex-1"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
             </div>
           )}
         </div>
@@ -0,0 +1,177 @@
+import {
+  AlignCenter,
+  AlignJustify,
+  AlignLeft,
+  AlignRight,
+  AlignVerticalJustifyCenter,
+  AlignVerticalJustifyEnd,
+  AlignVerticalJustifyStart,
+  Italic,
+} from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Toggle } from "@/components/ui/toggle";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  MAX_LETTER_SPACING,
+  MAX_LINE_HEIGHT,
+  MAX_WORD_SPACING,
+  MIN_LETTER_SPACING,
+  MIN_LINE_HEIGHT,
+  MIN_WORD_SPACING,
+  type TextAlign,
+  type Typography,
+  type VerticalAlign,
+} from "@/lib/render";
+
+const FONT_WEIGHTS = [
+  { value: 100, label: 'Thin' },
+  { value: 200, label: 'Extra Light' },
+  { value: 300, label: 'Light' },
+  { value: 400, label: 'Regular' },
+  { value: 500, label: 'Medium' },
+  { value: 600, label: 'Semi Bold' },
+  { value: 700, label: 'Bold' },
+  { value: 800, label: 'Extra Bold' },
+  { value: 900, label: 'Black' },
+];
+
+const ALIGN_OPTIONS = [
+  { value: 'left', label: 'Align left', icon: AlignLeft },
+  { value: 'center', label: 'Align center', icon: AlignCenter },
+  { value: 'right', label: 'Align right', icon: AlignRight },
+  { value: 'justify', label: 'Justify', icon: AlignJustify },
+] satisfies { value: TextAlign; label: string; icon: typeof AlignLeft }[];
+
+const VERTICAL_ALIGN_OPTIONS = [
+  { value: 'top', label: 'Anchor top', icon: AlignVerticalJustifyStart },
+  { value: 'middle', label: 'Anchor middle', icon: AlignVerticalJustifyCenter },
+  { value: 'bottom', label: 'Anchor bottom', icon: AlignVerticalJustifyEnd },
+] satisfies { value: VerticalAlign; label: string; icon: typeof AlignLeft }[];
+
+interface SpacingSliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+const SpacingSlider = ({ id, label, value, min, max, step, unit, onChange }: SpacingSliderProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <Label htmlFor={id} className="text-sm font-medium">{label}</Label>
+      <span className="text-xs text-muted-foreground tabular-nums">{value.toFixed(2)}{unit}</span>
+    </div>
+    <Slider id={id} value={[value]} min={min} max={max} step={step} onValueChange={([next]) => onChange(next)} />
+  </div>
+);
+
+interface TypographyControlsProps {
+  value: Typography;
+  onChange: (value: Typography) => void;
+}
+
+export const TypographyControls = ({ value, onChange }: TypographyControlsProps) => {
+  const update = (changes: Partial<Typography>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Weight</Label>
+          <div className="flex gap-2">
+            <Select value={String(value.weight)} onValueChange={(weight) => update({ weight: Number(weight) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FONT_WEIGHTS.map((weight) => (
+                  <SelectItem key={weight.value} value={String(weight.value)}>
+                    {weight.label} ({weight.value})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Toggle
+              variant="outline"
+              pressed={value.italic}
+              onPressedChange={(italic) => update({ italic })}
+              aria-label="Italic"
+              className="shrink-0"
+            >
+              <Italic className="h-4 w-4" />
+            </Toggle>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Alignment</Label>
+          <div className="flex flex-wrap gap-2">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={value.align}
+              onValueChange={(align: TextAlign | '') => align && update({ align })}
+            >
+              {ALIGN_OPTIONS.map(({ value: align, label, icon: Icon }) => (
+                <ToggleGroupItem key={align} value={align} aria-label={label} title={label}>
+                  <Icon className="h-4 w-4" />
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={value.verticalAlign}
+              onValueChange={(verticalAlign: VerticalAlign | '') => verticalAlign && update({ verticalAlign })}
+            >
+              {VERTICAL_ALIGN_OPTIONS.map(({ value: verticalAlign, label, icon: Icon }) => (
+                <ToggleGroupItem key={verticalAlign} value={verticalAlign} aria-label={label} title={label}>
+                  <Icon className="h-4 w-4" />
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SpacingSlider
+          id="line-height"
+          label="Line height"
+          value={value.lineHeight}
+          min={MIN_LINE_HEIGHT}
+          max={MAX_LINE_HEIGHT}
+          step={0.05}
+          unit="×"
+          onChange={(lineHeight) => update({ lineHeight })}
+        />
+        <SpacingSlider
+          id="letter-spacing"
+          label="Letter spacing"
+          value={value.letterSpacing}
+          min={MIN_LETTER_SPACING}
+          max={MAX_LETTER_SPACING}
+          step={0.01}
+          unit="em"
+          onChange={(letterSpacing) => update({ letterSpacing })}
+        />
+        <SpacingSlider
+          id="word-spacing"
+          label="Word spacing"
+          value={value.wordSpacing}
+          min={MIN_WORD_SPACING}
+          max={MAX_WORD_SPACING}
+          step={0.05}
+          unit="em"
+          onChange={(wordSpacing) => update({ wordSpacing })}
+        />
+      </div>
+    </div>
+  );
+};
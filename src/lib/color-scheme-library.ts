@@ -0,0 +1,75 @@
+import {
+  customColorSchemeSchema,
+  resolveScheme,
+  upgradeCustomColorScheme,
+  type ColorScheme,
+  type CustomColorScheme,
+} from "@/lib/render";
+
+const STORAGE_KEY = 'text-art:color-schemes';
+
+/** A custom scheme kept in this browser's palette library. */
+export interface SavedColorScheme extends CustomColorScheme {
+  id: string;
+}
+
+export const toCustomColorScheme = ({ name, background, gradient, text, shadow }: CustomColorScheme): CustomColorScheme => ({
+  name,
+  background,
+  gradient,
+  text,
+  shadow,
+});
+
+/** The selected scheme as a custom one, i.e. a named copy when a built-in scheme is selected. */
+export function editableColorScheme(colorScheme: ColorScheme, custom: CustomColorScheme | null): CustomColorScheme {
+  if (colorScheme === 'custom') return custom ?? { name: 'Custom', ...resolveScheme('purple').scheme };
+  const { label, scheme } = resolveScheme(colorScheme);
+  return { name: `${label} copy`, ...scheme };
+}
+
+/** Whether two schemes draw identically and share a name. */
+export const isSameColorScheme = (a: CustomColorScheme, b: CustomColorScheme) =>
+  JSON.stringify(toCustomColorScheme(a)) === JSON.stringify(toCustomColorScheme(b));
+
+/**
+ * Reads the palette library. Entries that no longer validate (or storage that
+ * is unavailable) are skipped rather than breaking the app.
+ */
+export function loadColorSchemes(): SavedColorScheme[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap((entry: unknown) => {
+      if (typeof entry !== 'object' || entry === null || typeof (entry as SavedColorScheme).id !== 'string') return [];
+      const { id, ...scheme } = entry as SavedColorScheme;
+      const result = customColorSchemeSchema.safeParse(upgradeCustomColorScheme(scheme));
+      return result.success ? [{ ...result.data, id }] : [];
+    });
+  } catch (error) {
+    console.error('Error reading saved color schemes:', error);
+    return [];
+  }
+}
+
+export function storeColorSchemes(schemes: SavedColorScheme[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(schemes));
+}
+
+/** Adds `scheme` to the library, or replaces the entry with the same id. */
+export function saveColorScheme(scheme: CustomColorScheme, id: string = crypto.randomUUID()): SavedColorScheme[] {
+  const saved = { ...toCustomColorScheme(scheme), id };
+  const schemes = loadColorSchemes();
+  const index = schemes.findIndex((entry) => entry.id === id);
+  if (index === -1) schemes.push(saved);
+  else schemes[index] = saved;
+  storeColorSchemes(schemes);
+  return schemes;
+}
+
+export function deleteColorScheme(id: string): SavedColorScheme[] {
+  const schemes = loadColorSchemes().filter((entry) => entry.id !== id);
+  storeColorSchemes(schemes);
+  return schemes;
+}
@@ -0,0 +1,41 @@
+import type { GradientConfig } from "./gradients";
+import { getScheme, registerScheme, type SchemeDefinition } from "./registry";
+import type { ColorScheme } from "./types";
+
+export interface ColorSchemeConfig {
+  /** Background colours, placed by `gradient.positions`. */
+  background: string[];
+  gradient: GradientConfig;
+  text: string;
+  /** Colour of the readability shadow behind the text. */
+  shadow: string;
+}
+
+/** A user-made scheme. Designs embed it, so they render anywhere without the palette library. */
+export interface CustomColorScheme extends ColorSchemeConfig {
+  name: string;
+}
+
+/** Corner to corner on a square image, which is what every built-in scheme uses. */
+export const DEFAULT_GRADIENT: GradientConfig = { type: 'linear', angle: 135, positions: [0, 1], interpolation: 'srgb' };
+
+const builtInScheme = (background: string[], text = '#ffffff', shadow = '#00000080'): ColorSchemeConfig =>
+  ({ background, gradient: DEFAULT_GRADIENT, text, shadow });
+
+registerScheme('purple', { label: 'Purple Gradient', category: 'Gradients', scheme: builtInScheme(['#8b5cf6', '#a855f7']) });
+registerScheme('blue', { label: 'Blue Ocean', category: 'Gradients', scheme: builtInScheme(['#3b82f6', '#1d4ed8']) });
+registerScheme('green', { label: 'Green Nature', category: 'Gradients', scheme: builtInScheme(['#10b981', '#059669']) });
+registerScheme('orange', { label: 'Orange Sunset', category: 'Gradients', scheme: builtInScheme(['#f97316', '#ea580c']) });
+registerScheme('dark', { label: 'Dark Mode', category: 'Neutral', scheme: builtInScheme(['#1f2937', '#111827']) });
+registerScheme('light', {
+  label: 'Light & Clean',
+  category: 'Neutral',
+  scheme: builtInScheme(['#f8fafc', '#e2e8f0'], '#1f2937', '#ffffff80'),
+});
+
+/** The registered scheme `id`; throws for schemes whose module was never imported. */
+export function resolveScheme(id: ColorScheme): SchemeDefinition {
+  const scheme = getScheme(id);
+  if (!scheme) throw new Error(`Unknown color scheme "${id}"`);
+  return scheme;
+}
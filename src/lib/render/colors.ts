@@ -0,0 +1,193 @@
+/** An sRGB color with channels and alpha in 0–1. */
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
+
+export const INTERPOLATION_SPACES = ['srgb', 'oklab', 'oklch'] as const;
+
+export type InterpolationSpace = typeof INTERPOLATION_SPACES[number];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const HEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL = /^(rgba?|hsla?|oklch)\(\s*([^()]*?)\s*\)$/i;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i;
+
+/** A number, optionally a percentage of `percentOf`; `none` counts as zero. */
+const parseNumber = (text: string, percentOf: number): number | null => {
+  if (text === 'none') return 0;
+  const match = text.match(NUMBER);
+  if (!match) return null;
+  const unit = text.slice(match[0].length);
+  const value = parseFloat(match[0]);
+  if (unit === '%') return (value / 100) * percentOf;
+  return unit === '' ? value : null;
+};
+
+/** An angle in degrees. */
+const parseHue = (text: string): number | null => {
+  if (text === 'none') return 0;
+  const match = text.match(NUMBER);
+  if (!match) return null;
+  const value = parseFloat(match[0]);
+  const units: Record<string, number> = { '': 1, deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+  const scale = units[text.slice(match[0].length).toLowerCase()];
+  return scale === undefined ? null : value * scale;
+};
+
+/** Splits `a, b, c, d` or `a b c / d` into the channel and alpha arguments. */
+const splitArguments = (body: string): { channels: string[]; alpha?: string } | null => {
+  if (body.includes(',')) {
+    const parts = body.split(',').map((part) => part.trim());
+    if (parts.length < 3 || parts.length > 4) return null;
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+  const [main, alpha, extra] = body.split('/').map((part) => part.trim());
+  if (extra !== undefined) return null;
+  const channels = main.split(/\s+/);
+  if (channels.length !== 3) return null;
+  return { channels, alpha };
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number) => {
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    return lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return { r: channel(0), g: channel(8), b: channel(4) };
+};
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+const toGamma = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055);
+
+/** OKLab, from Björn Ottosson's reference implementation. */
+export function rgbToOklab({ r, g, b }: Pick<Rgba, 'r' | 'g' | 'b'>) {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+/** Back to sRGB, clipping colors outside the sRGB gamut. */
+export function oklabToRgb({ l, a, b }: { l: number; a: number; b: number }) {
+  const l3 = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m3 = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s3 = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return {
+    r: clamp01(toGamma(4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3)),
+    g: clamp01(toGamma(-1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3)),
+    b: clamp01(toGamma(-0.0041960863 * l3 - 0.7034186147 * m3 + 1.707614701 * s3)),
+  };
+}
+
+/**
+ * Parses a hex, `rgb()`, `hsl()` or `oklch()` color, in either the comma or
+ * the space-separated syntax. Returns null for anything else.
+ */
+export function parseColor(input: string): Rgba | null {
+  const text = input.trim().toLowerCase();
+
+  if (HEX.test(text)) {
+    let digits = text.slice(1);
+    if (digits.length <= 4) digits = digits.replace(/./g, (digit) => digit + digit);
+    const channel = (i: number) => parseInt(digits.slice(i, i + 2), 16) / 255;
+    return { r: channel(0), g: channel(2), b: channel(4), alpha: digits.length === 8 ? channel(6) : 1 };
+  }
+
+  const match = text.match(FUNCTIONAL);
+  const args = match && splitArguments(match[2]);
+  if (!args) return null;
+
+  const alpha = args.alpha === undefined ? 1 : parseNumber(args.alpha, 1);
+  if (alpha === null) return null;
+  const [first, second, third] = args.channels;
+  let rgb: Pick<Rgba, 'r' | 'g' | 'b'>;
+
+  if (match[1].startsWith('rgb')) {
+    const channels = [first, second, third].map((channel) => parseNumber(channel, 255));
+    if (channels.includes(null)) return null;
+    rgb = { r: channels[0] / 255, g: channels[1] / 255, b: channels[2] / 255 };
+  } else if (match[1].startsWith('hsl')) {
+    const hue = parseHue(first);
+    const saturation = parseNumber(second.endsWith('%') ? second : `${second}%`, 1);
+    const lightness = parseNumber(third.endsWith('%') ? third : `${third}%`, 1);
+    if (hue === null || saturation === null || lightness === null) return null;
+    rgb = hslToRgb(((hue % 360) + 360) % 360, clamp01(saturation), clamp01(lightness));
+  } else {
+    const lightness = parseNumber(first, 1);
+    const chroma = parseNumber(second, 0.4);
+    const hue = parseHue(third);
+    if (lightness === null || chroma === null || hue === null) return null;
+    const radians = (hue * Math.PI) / 180;
+    const c = Math.max(0, chroma);
+    rgb = oklabToRgb({ l: clamp01(lightness), a: c * Math.cos(radians), b: c * Math.sin(radians) });
+  }
+
+  return { r: clamp01(rgb.r), g: clamp01(rgb.g), b: clamp01(rgb.b), alpha: clamp01(alpha) };
+}
+
+/** Composites a translucent colour over another; the result keeps the bottom colour's alpha. */
+export const compositeOver = (top: Rgba, bottom: Rgba): Rgba => ({
+  r: top.r * top.alpha + bottom.r * (1 - top.alpha),
+  g: top.g * top.alpha + bottom.g * (1 - top.alpha),
+  b: top.b * top.alpha + bottom.b * (1 - top.alpha),
+  alpha: bottom.alpha,
+});
+
+export const isValidColor = (input: string) => parseColor(input) !== null;
+
+/** `#rrggbb`, or `#rrggbbaa` when translucent. */
+export function formatHex({ r, g, b, alpha }: Rgba): string {
+  const hex = (value: number) => Math.round(clamp01(value) * 255).toString(16).padStart(2, '0');
+  return `#${hex(r)}${hex(g)}${hex(b)}${alpha < 1 ? hex(alpha) : ''}`;
+}
+
+/**
+ * A form of `color` every canvas understands. Older browsers reject `oklch()`
+ * in canvas styles, so everything is drawn from hex.
+ */
+export const toCanvasColor = (color: string) => {
+  const parsed = parseColor(color);
+  return parsed ? formatHex(parsed) : color;
+};
+
+/** Mixes two colors in `space`. OKLCH takes the shorter way round the hue circle. */
+export function interpolateColor(from: Rgba, to: Rgba, t: number, space: InterpolationSpace): Rgba {
+  const mix = (a: number, b: number) => a + (b - a) * t;
+  const alpha = mix(from.alpha, to.alpha);
+  if (space === 'srgb') {
+    return { r: mix(from.r, to.r), g: mix(from.g, to.g), b: mix(from.b, to.b), alpha };
+  }
+
+  const a = rgbToOklab(from);
+  const b = rgbToOklab(to);
+  if (space === 'oklab') {
+    return { ...oklabToRgb({ l: mix(a.l, b.l), a: mix(a.a, b.a), b: mix(a.b, b.b) }), alpha };
+  }
+
+  const chromaA = Math.hypot(a.a, a.b);
+  const chromaB = Math.hypot(b.a, b.b);
+  // Greys have no meaningful hue, so they take the other color's
+  let hueA = Math.atan2(a.b, a.a);
+  let hueB = Math.atan2(b.b, b.a);
+  if (chromaA < 1e-4) hueA = hueB;
+  if (chromaB < 1e-4) hueB = hueA;
+  let delta = hueB - hueA;
+  if (delta > Math.PI) delta -= 2 * Math.PI;
+  if (delta < -Math.PI) delta += 2 * Math.PI;
+
+  const hue = hueA + delta * t;
+  const chroma = mix(chromaA, chromaB);
+  return { ...oklabToRgb({ l: mix(a.l, b.l), a: chroma * Math.cos(hue), b: chroma * Math.sin(hue) }), alpha };
+}
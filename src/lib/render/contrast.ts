@@ -0,0 +1,160 @@
+import { compositeOver, formatHex, oklabToRgb, parseColor, rgbToOklab, type Rgba } from "./colors";
+import { fillColors } from "./effects";
+import { backgroundColorAt } from "./gradients";
+import { applyFont, type TextLayout } from "./layout";
+import { lineExtent, shapeArea, textAlign } from "./render";
+import type { RenderContext, RenderSpec, TextOutline } from "./types";
+
+/** WCAG 2 minimum ratios for normal and large text. */
+export const WCAG_THRESHOLDS = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+} as const;
+
+export type WcagLevel = keyof typeof WCAG_THRESHOLDS;
+
+/** Outline width the auto-fix adds, as a fraction of the font size. */
+export const AUTO_OUTLINE_WIDTH = 0.06;
+
+/** Samples taken across each line, and down it. */
+const SAMPLES_ACROSS = 12;
+const SAMPLES_DOWN = 3;
+
+export interface ContrastReport {
+  /** Worst contrast ratio between the text and what is directly behind it. */
+  ratio: number;
+  /** WCAG large text: at least 24 px, or 18.66 px when bold. */
+  largeText: boolean;
+  AA: boolean;
+  AAA: boolean;
+  /** The colours sampled behind the text, which the auto-fixes work against. */
+  backgrounds: Rgba[];
+}
+
+const channelLuminance = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+
+export function relativeLuminance({ r, g, b }: Rgba): number {
+  return 0.2126 * channelLuminance(r) + 0.7152 * channelLuminance(g) + 0.0722 * channelLuminance(b);
+}
+
+export function contrastRatio(foreground: Rgba, background: Rgba): number {
+  const a = relativeLuminance(compositeOver(foreground, background));
+  const b = relativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+export const isLargeText = (fontSize: number, weight: number) => fontSize >= 24 || (weight >= 700 && fontSize >= 18.66);
+
+export const requiredRatio = (level: WcagLevel, largeText: boolean) =>
+  WCAG_THRESHOLDS[level][largeText ? 'large' : 'normal'];
+
+/** The worst ratio of `text` against any of `backgrounds`. */
+export const worstRatio = (text: Rgba, backgrounds: Rgba[]) =>
+  Math.min(...backgrounds.map((background) => contrastRatio(text, background)));
+
+/**
+ * What shows behind the text at a point of the shape area. A calligram
+ * without background shows what is outside the shape; null when that is
+ * transparent, as it could end up on anything.
+ */
+const backdrop = (spec: RenderSpec): ((x: number, y: number) => Rgba) | null => {
+  const area = shapeArea(spec);
+  const { calligram, outsideBackground } = spec;
+  if (calligram.mode === 'off' || !calligram.removeBackground) {
+    return (x, y) => backgroundColorAt(spec.colorScheme, area.width, area.height, x, y);
+  }
+  if (outsideBackground.type === 'scheme') {
+    return (x, y) => backgroundColorAt(spec.colorScheme, spec.width, spec.height, x + area.margin, y + area.margin);
+  }
+  const color = outsideBackground.type === 'solid'
+    ? parseColor(outsideBackground.color)
+    : spec.format === 'jpeg' && parseColor(spec.matteColor);
+  return color ? () => color : null;
+};
+
+/**
+ * Samples the background across the area each line of `layout` covers and
+ * rates every colour of the text fill against it. With an outline the glyphs
+ * are edged by the outline colour instead, so the fill is rated against the
+ * outline laid over each sampled background. Returns null when there is no
+ * text, or no known background behind it. Leaves the context's font set to
+ * the layout's.
+ */
+export function checkContrast(ctx: RenderContext, spec: RenderSpec, layout: TextLayout): ContrastReport | null {
+  const texts = fillColors(spec.effects.fill, spec.colorScheme.text).map(parseColor).filter(Boolean);
+  const backgroundAt = backdrop(spec);
+  if (!texts.length || !layout.lines.length || !backgroundAt) return null;
+
+  applyFont(ctx, layout.fontSize, spec.fontFamily, spec.typography);
+  const backgrounds: Rgba[] = [];
+  layout.lines.forEach((line) => {
+    const { left, right } = lineExtent(ctx, line, textAlign(spec));
+    for (let i = 0; i < SAMPLES_ACROSS; i++) {
+      for (let j = 0; j < SAMPLES_DOWN; j++) {
+        const x = left + ((right - left) * (i + 0.5)) / SAMPLES_ACROSS;
+        const y = line.y + layout.fontSize * ((j + 0.5) / SAMPLES_DOWN - 0.5);
+        backgrounds.push(backgroundAt(x, y));
+      }
+    }
+  });
+
+  const { outline: textOutline } = spec.effects;
+  const outline = textOutline.enabled && parseColor(textOutline.color);
+  // A translucent outline shows the background through it, so rate it over every sample
+  const edges = outline ? backgrounds.map((background) => compositeOver(outline, background)) : backgrounds;
+  const ratio = Math.min(...texts.map((text) => worstRatio(text, edges)));
+  const largeText = isLargeText(layout.fontSize, spec.typography.weight);
+  return {
+    ratio,
+    largeText,
+    AA: ratio >= requiredRatio('AA', largeText),
+    AAA: ratio >= requiredRatio('AAA', largeText),
+    backgrounds,
+  };
+}
+
+/**
+ * The text colour nearest to `color` that reaches `minRatio` against every
+ * background: same hue and chroma, lightness moved towards black or white,
+ * whichever needs the smaller change. Falls back to plain black or white.
+ */
+export function suggestTextColor(color: string, backgrounds: Rgba[], minRatio: number): string {
+  const original = parseColor(color) ?? { r: 0, g: 0, b: 0, alpha: 1 };
+  const opaque = { ...original, alpha: 1 };
+  const lab = rgbToOklab(opaque);
+
+  const candidates = [0, 1].flatMap((target) => {
+    // Lightness only moves one way, so search for the smallest step that passes
+    const withLightness = (l: number): Rgba => ({ ...oklabToRgb({ ...lab, l }), alpha: 1 });
+    if (worstRatio(withLightness(target), backgrounds) < minRatio) return [];
+    let near = lab.l;
+    let far = target;
+    for (let i = 0; i < 24; i++) {
+      const middle = (near + far) / 2;
+      if (worstRatio(withLightness(middle), backgrounds) >= minRatio) far = middle;
+      else near = middle;
+    }
+    return [{ color: withLightness(far), change: Math.abs(far - lab.l) }];
+  });
+
+  if (candidates.length) {
+    candidates.sort((a, b) => a.change - b.change);
+    return formatHex(candidates[0].color);
+  }
+
+  const black = { r: 0, g: 0, b: 0, alpha: 1 };
+  const white = { r: 1, g: 1, b: 1, alpha: 1 };
+  return formatHex(worstRatio(black, backgrounds) >= worstRatio(white, backgrounds) ? black : white);
+}
+
+/** An enabled black or white outline, whichever stands out more from the text colour. */
+export function suggestOutline(textColor: string): TextOutline {
+  const text = parseColor(textColor) ?? { r: 1, g: 1, b: 1, alpha: 1 };
+  const black = { r: 0, g: 0, b: 0, alpha: 1 };
+  const white = { r: 1, g: 1, b: 1, alpha: 1 };
+  return {
+    enabled: true,
+    color: contrastRatio(text, black) >= contrastRatio(text, white) ? '#000000' : '#ffffff',
+    width: AUTO_OUTLINE_WIDTH,
+  };
+}
@@ -0,0 +1,107 @@
+import type { ColorSchemeConfig } from "./color-schemes";
+import { compositeOver, formatHex, parseColor, toCanvasColor } from "./colors";
+import { createBackground } from "./gradients";
+import type { TextLayout } from "./layout";
+import type { RenderCanvas, RenderContext, TextFill, TextPattern } from "./types";
+
+/** The area a fill is spread over, in the spec's coordinates. */
+export interface FillBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** A shadow cast by whatever `paint` draws, in the spec's coordinates. */
+export interface ShadowPaint {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/** What a registered effect draws with; the context's state is restored after it. */
+export interface EffectContext {
+  layout: TextLayout;
+  scheme: ColorSchemeConfig;
+  /** Fill or stroke every line of text with the context's current style. */
+  fillText: () => void;
+  strokeText: () => void;
+  /** Draws only the shadow of what `paint` draws, like the built-in shadow and glow. */
+  paintShadow: (shadow: ShadowPaint, paint: () => void) => void;
+}
+
+/** A text effect beyond the built-in shadow, glow, outline and fill. */
+export interface EffectConfig {
+  /** `'under'` draws after the built-in shadow and glow, `'over'` on top of the fill. */
+  layer: 'under' | 'over';
+  draw: (ctx: RenderContext, context: EffectContext) => void;
+}
+
+const createTileCanvas = (size: number): RenderCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(size, size);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  return canvas;
+};
+
+/** Draws one seamless tile of `pattern` in `color`, `size` pixels square. */
+const drawPatternTile = (ctx: RenderContext, pattern: TextPattern, color: string, size: number) => {
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  if (pattern === 'dots') {
+    ctx.beginPath();
+    ctx.arc(size / 2, size / 2, size / 4, 0, Math.PI * 2);
+    ctx.fill();
+  } else if (pattern === 'checks') {
+    ctx.fillRect(0, 0, size / 2, size / 2);
+    ctx.fillRect(size / 2, size / 2, size / 2, size / 2);
+  } else {
+    // Three diagonals (x + y = 0, size, 2 size) so stripes continue across the corners
+    ctx.lineWidth = size / 4;
+    ctx.beginPath();
+    [0, size, size * 2].forEach((c) => {
+      ctx.moveTo(c + size, -size);
+      ctx.lineTo(c - size * 2, size * 2);
+    });
+    ctx.stroke();
+  }
+};
+
+/**
+ * The paint for the text's fill: the scheme's text colour, a gradient spread
+ * over `box`, or a pattern drawn over the text colour. Patterns repeat in the
+ * spec's coordinates, so they scale with the rest of the image.
+ */
+export function createTextFill(
+  ctx: RenderContext,
+  fill: TextFill,
+  textColor: string,
+  box: FillBox,
+): string | CanvasGradient | CanvasPattern {
+  if (fill.type === 'gradient') {
+    return createBackground(ctx, { background: fill.colors, gradient: fill.gradient }, box.width, box.height, box.left, box.top);
+  }
+  if (fill.type === 'solid') return toCanvasColor(textColor);
+
+  const size = Math.max(1, Math.round(fill.patternSize));
+  const tile = createTileCanvas(size);
+  const tileCtx = tile.getContext('2d') as RenderContext | null;
+  if (!tileCtx) return toCanvasColor(textColor);
+  tileCtx.fillStyle = toCanvasColor(textColor);
+  tileCtx.fillRect(0, 0, size, size);
+  drawPatternTile(tileCtx, fill.pattern, toCanvasColor(fill.patternColor), size);
+  return ctx.createPattern(tile, 'repeat') ?? toCanvasColor(textColor);
+}
+
+/** Every colour a fill paints with, e.g. to rate each against the background. */
+export function fillColors(fill: TextFill, textColor: string): string[] {
+  if (fill.type === 'gradient') return fill.colors;
+  if (fill.type === 'pattern') {
+    const base = parseColor(textColor);
+    const pattern = parseColor(fill.patternColor);
+    return base && pattern ? [textColor, formatHex(compositeOver(pattern, base))] : [textColor];
+  }
+  return [textColor];
+}
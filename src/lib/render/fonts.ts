@@ -0,0 +1,153 @@
+import bebasNeue from "@fontsource/bebas-neue/files/bebas-neue-latin-400-normal.woff2?url";
+import pacifico from "@fontsource/pacifico/files/pacifico-latin-400-normal.woff2?url";
+import interItalic from "@fontsource-variable/inter/files/inter-latin-wght-italic.woff2?url";
+import interNormal from "@fontsource-variable/inter/files/inter-latin-wght-normal.woff2?url";
+import jetBrainsMonoItalic from "@fontsource-variable/jetbrains-mono/files/jetbrains-mono-latin-wght-italic.woff2?url";
+import jetBrainsMonoNormal from "@fontsource-variable/jetbrains-mono/files/jetbrains-mono-latin-wght-normal.woff2?url";
+import playfairDisplayItalic from "@fontsource-variable/playfair-display/files/playfair-display-latin-wght-italic.woff2?url";
+import playfairDisplayNormal from "@fontsource-variable/playfair-display/files/playfair-display-latin-wght-normal.woff2?url";
+import robotoSlabNormal from "@fontsource-variable/roboto-slab/files/roboto-slab-latin-wght-normal.woff2?url";
+import type { Typography } from "./types";
+
+export interface FontFaceSource {
+  /** URL of a font file, or the raw bytes of an uploaded one. */
+  source: string | ArrayBuffer;
+  /** CSS weight or weight range, e.g. `'400'` or `'100 900'` for variable fonts. */
+  weight: string;
+  style: 'normal' | 'italic';
+}
+
+export interface FontOption {
+  family: string;
+  label: string;
+  faces: FontFaceSource[];
+  uploaded?: boolean;
+}
+
+export const DEFAULT_FONT_FAMILY = 'Inter';
+
+export const FONT_UPLOAD_EXTENSIONS = ['.ttf', '.otf', '.woff2'];
+
+export const BUNDLED_FONTS: FontOption[] = [
+  {
+    family: 'Inter',
+    label: 'Inter',
+    faces: [
+      { source: interNormal, weight: '100 900', style: 'normal' },
+      { source: interItalic, weight: '100 900', style: 'italic' },
+    ],
+  },
+  {
+    family: 'Roboto Slab',
+    label: 'Roboto Slab',
+    faces: [{ source: robotoSlabNormal, weight: '100 900', style: 'normal' }],
+  },
+  {
+    family: 'Playfair Display',
+    label: 'Playfair Display',
+    faces: [
+      { source: playfairDisplayNormal, weight: '400 900', style: 'normal' },
+      { source: playfairDisplayItalic, weight: '400 900', style: 'italic' },
+    ],
+  },
+  {
+    family: 'JetBrains Mono',
+    label: 'JetBrains Mono',
+    faces: [
+      { source: jetBrainsMonoNormal, weight: '100 800', style: 'normal' },
+      { source: jetBrainsMonoItalic, weight: '100 800', style: 'italic' },
+    ],
+  },
+  {
+    family: 'Bebas Neue',
+    label: 'Bebas Neue',
+    faces: [{ source: bebasNeue, weight: '400', style: 'normal' }],
+  },
+  {
+    family: 'Pacifico',
+    label: 'Pacifico',
+    faces: [{ source: pacifico, weight: '400', style: 'normal' }],
+  },
+];
+
+const uploadedFonts = new Map<string, FontOption>();
+
+export function listFonts(): FontOption[] {
+  return [...BUNDLED_FONTS, ...uploadedFonts.values()];
+}
+
+export function getFont(family: string): FontOption | undefined {
+  return BUNDLED_FONTS.find((font) => font.family === family) ?? uploadedFonts.get(family);
+}
+
+/** Faces already added to each font set, so every face is only fetched once per set. */
+const addedFaces = new WeakMap<FontFaceSet, Set<FontFaceSource>>();
+
+/**
+ * Adds the faces of `family` to `fontSet` (a document's or a worker's) and waits
+ * until the face matching `weight` and `style` has loaded, so the first render
+ * does not fall back to another font. Unknown families resolve immediately and
+ * are drawn with the fallback fonts.
+ */
+export async function loadFont(
+  fontSet: FontFaceSet,
+  family: string,
+  faces: FontFaceSource[],
+  { weight = '700', style = 'normal' }: { weight?: string; style?: string } = {},
+) {
+  let added = addedFaces.get(fontSet);
+  if (!added) {
+    added = new Set();
+    addedFaces.set(fontSet, added);
+  }
+
+  for (const face of faces) {
+    if (added.has(face)) continue;
+    const source = typeof face.source === 'string' ? `url(${face.source})` : face.source;
+    fontSet.add(new FontFace(family, source, { weight: face.weight, style: face.style }));
+    added.add(face);
+  }
+
+  await fontSet.load(`${style} ${weight} 16px "${family}"`);
+}
+
+/** Loads `family` into the page's fonts for drawing on DOM canvases. */
+export function ensureFontLoaded(family: string, options?: { weight?: string; style?: string }) {
+  return loadFont(document.fonts, family, getFont(family)?.faces ?? [], options);
+}
+
+/** The face selector `loadFont` waits for when drawing with `typography`. */
+export const fontFaceFor = ({ weight, italic }: Pick<Typography, 'weight' | 'italic'>) => ({
+  weight: String(weight),
+  style: italic ? 'italic' : 'normal',
+});
+
+/**
+ * Registers a TTF, OTF or WOFF2 file for this session under its file name.
+ * Rejects files the browser cannot parse as a font.
+ */
+export async function registerUploadedFont(file: File): Promise<FontOption> {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  if (!FONT_UPLOAD_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported font file type "${extension}"; use ${FONT_UPLOAD_EXTENSIONS.join(', ')}`);
+  }
+
+  const baseName = file.name.slice(0, -extension.length).replace(/[^\w -]+/g, ' ').trim() || 'Custom Font';
+  let family = baseName;
+  for (let i = 2; getFont(family); i++) {
+    family = `${baseName} ${i}`;
+  }
+
+  const data = await file.arrayBuffer();
+  // Parse once up front so a corrupt file fails here rather than at render time
+  await new FontFace(family, data).load();
+
+  const font: FontOption = {
+    family,
+    label: family,
+    faces: [{ source: data, weight: '100 900', style: 'normal' }],
+    uploaded: true,
+  };
+  uploadedFonts.set(family, font);
+  return font;
+}
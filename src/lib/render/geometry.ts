@@ -0,0 +1,243 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** A horizontal interval `[left, right]` at some y. */
+export interface Span {
+  left: number;
+  right: number;
+}
+
+export function circlePoints(centerX: number, centerY: number, radius: number, segments = 64): Point[] {
+  return Array.from({ length: segments }, (_, i) => {
+    const angle = (i / segments) * 2 * Math.PI;
+    return { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) };
+  });
+}
+
+export function polygonBounds(polygon: Point[]) {
+  const xs = polygon.map((point) => point.x);
+  const ys = polygon.map((point) => point.y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+}
+
+/**
+ * Signed area of a simple polygon (shoelace formula): positive when its points
+ * run clockwise on screen, where y points down.
+ */
+export function signedPolygonArea(polygon: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/** Unsigned area of a simple polygon. */
+export const polygonArea = (polygon: Point[]) => Math.abs(signedPolygonArea(polygon));
+
+/**
+ * `polygon` moved inwards by `distance`, each point along the bisector of its
+ * two edges. Sharp corners move at most twice the distance; concave ones may
+ * fold over when it is large, which is fine for guiding text.
+ */
+export function insetPolygon(polygon: Point[], distance: number): Point[] {
+  const orientation = signedPolygonArea(polygon) < 0 ? -1 : 1;
+  const inward = (a: Point, b: Point): Point => {
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: ((a.y - b.y) / length) * orientation, y: ((b.x - a.x) / length) * orientation };
+  };
+  return polygon.map((point, i) => {
+    const before = inward(polygon[(i - 1 + polygon.length) % polygon.length], point);
+    const after = inward(point, polygon[(i + 1) % polygon.length]);
+    const bisector = { x: before.x + after.x, y: before.y + after.y };
+    const length = Math.hypot(bisector.x, bisector.y);
+    if (length < 1e-6) return { x: point.x + before.x * distance, y: point.y + before.y * distance };
+    // Repeated points have no edge after them
+    const edge = after.x || after.y ? after : before;
+    const cos = Math.max(0.5, (bisector.x * edge.x + bisector.y * edge.y) / length);
+    const miter = distance / cos / length;
+    return { x: point.x + bisector.x * miter, y: point.y + bisector.y * miter };
+  });
+}
+
+/** Area-weighted centre of a simple polygon. */
+export function polygonCentroid(polygon: Point[]): Point {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    x += (a.x + b.x) * cross;
+    y += (a.y + b.y) * cross;
+  }
+  if (area === 0) return polygon[0] ?? { x: 0, y: 0 };
+  return { x: x / (3 * area), y: y / (3 * area) };
+}
+
+/** Samples a cubic Bézier, excluding its start point so consecutive curves chain cleanly. */
+export function cubicBezierPoints(p0: Point, p1: Point, p2: Point, p3: Point, steps = 16): Point[] {
+  return Array.from({ length: steps }, (_, i) => {
+    const t = (i + 1) / steps;
+    const mt = 1 - t;
+    return {
+      x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+      y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y,
+    };
+  });
+}
+
+/** All intervals where the horizontal line at `y` is inside `polygon` (even-odd rule). */
+export function spansAt(polygon: Point[], y: number): Span[] {
+  const xs: number[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+      xs.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+    }
+  }
+  xs.sort((a, b) => a - b);
+
+  const spans: Span[] = [];
+  for (let i = 0; i + 1 < xs.length; i += 2) {
+    spans.push({ left: xs[i], right: xs[i + 1] });
+  }
+  return spans;
+}
+
+/** All intervals where the vertical line at `x` is inside `polygon`, as top/bottom pairs. */
+export function verticalSpansAt(polygon: Point[], x: number): Span[] {
+  return spansAt(polygon.map((point) => ({ x: point.y, y: point.x })), x);
+}
+
+/** The interval at `y` containing `anchorX`, if any. */
+export function spanAt(polygon: Point[], y: number, anchorX: number): Span | null {
+  return spansAt(polygon, y).find((span) => span.left <= anchorX && anchorX <= span.right) ?? null;
+}
+
+/**
+ * The widest interval that stays inside `polygon` for every y in `[top, bottom]`,
+ * approximated by intersecting the spans at a few sample rows.
+ */
+export function bandSpan(polygon: Point[], top: number, bottom: number, anchorX: number, samples = 5): Span | null {
+  let left = -Infinity;
+  let right = Infinity;
+  for (let i = 0; i < samples; i++) {
+    const y = top + ((bottom - top) * i) / (samples - 1);
+    const span = spanAt(polygon, y, anchorX);
+    if (!span) return null;
+    left = Math.max(left, span.left);
+    right = Math.min(right, span.right);
+  }
+  return right > left ? { left, right } : null;
+}
+
+/**
+ * Every interval that stays inside `polygon` for all y in `[top, bottom]`,
+ * left to right: the spans of a few sample rows intersected with each other.
+ */
+export function bandSpans(polygon: Point[], top: number, bottom: number, samples = 5): Span[] {
+  let spans = spansAt(polygon, top);
+  for (let i = 1; i < samples && spans.length; i++) {
+    const row = spansAt(polygon, top + ((bottom - top) * i) / (samples - 1));
+    spans = spans.flatMap((span) => row
+      .map((other) => ({ left: Math.max(span.left, other.left), right: Math.min(span.right, other.right) }))
+      .filter(({ left, right }) => right > left));
+  }
+  return spans;
+}
+
+/**
+ * Approximately the largest axis-aligned rectangle inside `polygon`. Rows are
+ * sampled from top to bottom, and for every pair of rows the span around each
+ * of a few anchor columns is narrowed to what fits on all rows between them.
+ */
+export function largestInscribedRect(polygon: Point[], rows = 32, anchors = 9) {
+  const bounds = polygonBounds(polygon);
+  const step = bounds.height / rows;
+  // Row centres, so no sample lands exactly on a vertex at the top or bottom
+  const ys = Array.from({ length: rows }, (_, i) => bounds.top + (i + 0.5) * step);
+  let best = { left: bounds.left, top: bounds.top, width: 0, height: 0 };
+
+  for (let a = 0; a < anchors; a++) {
+    const anchorX = bounds.left + (bounds.width * (a + 0.5)) / anchors;
+    const spans = ys.map((y) => spanAt(polygon, y, anchorX));
+    for (let i = 0; i < rows; i++) {
+      let left = -Infinity;
+      let right = Infinity;
+      for (let j = i; j < rows && spans[j]; j++) {
+        left = Math.max(left, spans[j].left);
+        right = Math.min(right, spans[j].right);
+        if (right <= left) break;
+        // The rectangle spans from the first row's centre to the last one's,
+        // which keeps its corners inside where the outline narrows between rows
+        const height = ys[j] - ys[i];
+        if ((right - left) * height > best.width * best.height) {
+          best = { left, top: ys[i], width: right - left, height };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/** Vertices of a regular polygon inscribed in a circle, the first one at the top before `rotation` (degrees). */
+export function regularPolygonPoints(centerX: number, centerY: number, radius: number, sides: number, rotation = 0): Point[] {
+  const start = ((rotation - 90) * Math.PI) / 180;
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = start + (i * 2 * Math.PI) / sides;
+    return { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) };
+  });
+}
+
+/**
+ * Vertices of a star alternating between `radius` and `radius * innerRatio`,
+ * the first point at the top before `rotation` (degrees).
+ */
+export function starPoints(
+  centerX: number,
+  centerY: number,
+  radius: number,
+  points: number,
+  innerRatio: number,
+  rotation = 0,
+): Point[] {
+  const start = ((rotation - 90) * Math.PI) / 180;
+  return Array.from({ length: points * 2 }, (_, i) => {
+    const angle = start + (i * Math.PI) / points;
+    const r = i % 2 === 0 ? radius : radius * innerRatio;
+    return { x: centerX + r * Math.cos(angle), y: centerY + r * Math.sin(angle) };
+  });
+}
+
+/**
+ * Outline of a rectangle with rounded corners, radii in pixels given clockwise
+ * from the top left. Each corner's arc is sampled with `segments` points.
+ */
+export function roundedRectPoints(width: number, height: number, radii: number[], segments = 8): Point[] {
+  const corners = [
+    { x: 0, y: 0, start: Math.PI },
+    { x: width, y: 0, start: Math.PI * 1.5 },
+    { x: width, y: height, start: 0 },
+    { x: 0, y: height, start: Math.PI / 2 },
+  ];
+  return corners.flatMap((corner, i) => {
+    const radius = radii[i];
+    if (radius <= 0) return [{ x: corner.x, y: corner.y }];
+    const centerX = corner.x + (corner.x === 0 ? radius : -radius);
+    const centerY = corner.y + (corner.y === 0 ? radius : -radius);
+    return Array.from({ length: segments + 1 }, (_, s) => {
+      const angle = corner.start + (s / segments) * (Math.PI / 2);
+      return { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) };
+    });
+  });
+}
@@ -0,0 +1,81 @@
+import "./packs";
+
+export * from "./types";
+export {
+  DEFAULT_GRADIENT,
+  resolveScheme,
+  type ColorSchemeConfig,
+  type CustomColorScheme,
+} from "./color-schemes";
+export {
+  BUNDLED_FONTS,
+  DEFAULT_FONT_FAMILY,
+  FONT_UPLOAD_EXTENSIONS,
+  ensureFontLoaded,
+  fontFaceFor,
+  getFont,
+  listFonts,
+  loadFont,
+  registerUploadedFont,
+  type FontFaceSource,
+  type FontOption,
+} from "./fonts";
+export * from "./colors";
+export * from "./contrast";
+export { createTextFill, fillColors, type FillBox } from "./effects";
+export {
+  GRADIENT_TYPES,
+  backgroundColorAt,
+  createBackground,
+  evenPositions,
+  gradientStops,
+  toCssBackground,
+  type GradientConfig,
+  type GradientType,
+} from "./gradients";
+export { polygonPath, polygonShape, resolveShape, type ShapeConfig } from "./shapes";
+export * from "./registry";
+export {
+  MAX_PATH_DATA_LENGTH,
+  extractSvgPathData,
+  isValidPathData,
+  parsePathData,
+  type PathSegment,
+} from "./svg-path";
+export * from "./geometry";
+export {
+  breakLines,
+  lineText,
+  splitGraphemes,
+  tokenize,
+  type BreakOptions,
+  type Line,
+  type Token,
+} from "./line-breaking";
+export {
+  LINE_HEIGHT,
+  TEXT_PADDING,
+  applyFont,
+  fontFor,
+  layoutCalligram,
+  layoutText,
+  wrapLines,
+  type LayoutLine,
+  type LayoutOptions,
+  type TextFrame,
+  type TextLayout,
+} from "./layout";
+export {
+  JPEG_QUALITY,
+  drawTextImage,
+  lineExtent,
+  renderTextImage,
+  shapeArea,
+  textAlign,
+  textBlockBounds,
+  type RenderOptions,
+} from "./render";
+export { layoutTextPath } from "./text-path";
+export * from "./spec";
+export * from "./permalink";
+export { renderImageBlob, renderPreview, type RenderedPreview } from "./worker-client";
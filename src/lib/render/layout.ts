@@ -0,0 +1,445 @@
+import { bandSpan, bandSpans, polygonBounds, verticalSpansAt, type Point, type Span } from "./geometry";
+import {
+  breakLines,
+  lineText,
+  measureWith,
+  splitGraphemes,
+  tokenize,
+  type BreakOptions,
+  type Line,
+  type MeasureText,
+  type Token,
+} from "./line-breaking";
+import type { Calligram, FontSizing, RenderContext, Typography } from "./types";
+
+/** Default line height, as a multiple of the font size. */
+export const LINE_HEIGHT = 1.2;
+
+/** Inset between the shape outline and the text, as a fraction of the shape's shorter side. */
+export const TEXT_PADDING = 0.1;
+
+/** Font size text is measured at once, to be scaled to every size tried. */
+const MEASURE_SIZE = 100;
+
+export const fontFor = (fontSize: number, fontFamily: string, { weight, italic }: Pick<Typography, 'weight' | 'italic'>) =>
+  `${italic ? 'italic ' : ''}${weight} ${fontSize}px "${fontFamily}", system-ui, sans-serif`;
+
+/**
+ * Sets the font and spacing used both to measure and to draw text, so wrapping
+ * accounts for letter and word spacing. Browsers without canvas spacing support
+ * simply draw without it.
+ */
+export function applyFont(ctx: RenderContext, fontSize: number, fontFamily: string, typography: Typography) {
+  ctx.font = fontFor(fontSize, fontFamily, typography);
+  if ('letterSpacing' in ctx) ctx.letterSpacing = `${typography.letterSpacing * fontSize}px`;
+  if ('wordSpacing' in ctx) ctx.wordSpacing = `${typography.wordSpacing * fontSize}px`;
+}
+
+/** Where text may go inside a shape. */
+export interface TextFrame {
+  outline: Point[];
+  /** Vertical line every text line is anchored on. */
+  centerX: number;
+  /** Preferred vertical centre of the text block. */
+  centerY: number;
+  padding: number;
+  /** Rectangular fallback for text that cannot follow the outline. */
+  box: { centerX: number; centerY: number; width: number; height: number };
+}
+
+export interface LayoutLine {
+  text: string;
+  /** Horizontal centre of the line's slot. */
+  x: number;
+  /** Vertical middle of the line. */
+  y: number;
+  /** Width of the line's slot, which left, right and justified text align to. */
+  width: number;
+  /** Stretch the line to fill its slot; false for the last line of a paragraph. */
+  justify: boolean;
+  /** Rotation about `x`, `y` in radians, for a letter set along a path. */
+  angle?: number;
+}
+
+export interface TextLayout {
+  fontSize: number;
+  lines: LayoutLine[];
+}
+
+/**
+ * Wraps `text` into lines no wider than `maxWidth` using the context's current
+ * font, splitting overlong words rather than letting them overflow.
+ */
+export function wrapLines(ctx: RenderContext, text: string, maxWidth: number, hyphenate = false): string[] {
+  return breakLines(measureWith(ctx), tokenize(text), () => maxWidth, { breakWords: true, hyphenate, overflow: true })
+    .map((line) => line.text);
+}
+
+/** How many half-line steps a block may slide from its anchored position either way. */
+const MAX_TOP_STEPS = 4;
+
+type BandSpan = (bandTop: number) => Span | null;
+
+/**
+ * The span inside the outline over the band of a line starting at `bandTop`,
+ * memoized, since blocks tried at neighbouring tops share most of their rows.
+ * Bands only grow by half the padding vertically; the full amount leaves
+ * squat shapes like the heart no room.
+ */
+const memoizedBands = (frame: TextFrame, lineHeight: number): BandSpan => {
+  const spans = new Map<number, Span | null>();
+  return (bandTop) => {
+    // Tops are sums of fractional steps, so they are keyed to a hundredth of a pixel
+    const key = Math.round(bandTop * 100);
+    if (!spans.has(key)) {
+      spans.set(key, bandSpan(frame.outline, bandTop, bandTop + lineHeight + frame.padding, frame.centerX));
+    }
+    return spans.get(key);
+  };
+};
+
+/**
+ * Slots for `count` lines starting at `top`. Each slot is the span inside the
+ * outline over the line's band, so lines near the widest part of a shape get
+ * more room than lines near a point.
+ */
+const slotsAt = (frame: TextFrame, top: number, count: number, lineHeight: number, band: BandSpan): Span[] | null => {
+  const slots: Span[] = [];
+  for (let i = 0; i < count; i++) {
+    const span = band(top + i * lineHeight - frame.padding / 2);
+    if (!span || span.right - span.left <= 2 * frame.padding) return null;
+    slots.push({ left: span.left + frame.padding, right: span.right - frame.padding });
+  }
+  return slots;
+};
+
+/**
+ * Candidate tops for a block of `count` lines: the anchored position along
+ * the outline's centre column, then positions a few half lines either side of
+ * it where the block still fits, nearest first. Top and bottom anchoring start
+ * from the ends of the column.
+ */
+const blockTops = (frame: TextFrame, count: number, lineHeight: number, anchor: Typography['verticalAlign']): number[] => {
+  const column = verticalSpansAt(frame.outline, frame.centerX)
+    .sort((a, b) => Math.abs((a.left + a.right) / 2 - frame.centerY) - Math.abs((b.left + b.right) / 2 - frame.centerY))[0];
+  if (!column) return [];
+
+  const blockHeight = count * lineHeight;
+  const minTop = column.left + frame.padding / 2;
+  const maxTop = column.right - frame.padding / 2 - blockHeight;
+  if (maxTop < minTop) return [];
+
+  const preferred = anchor === 'top'
+    ? minTop
+    : anchor === 'bottom'
+      ? maxTop
+      : Math.min(maxTop, Math.max(minTop, frame.centerY - blockHeight / 2));
+  const step = lineHeight / 2;
+  const tops = [preferred];
+  for (let offset = step; offset <= MAX_TOP_STEPS * step; offset += step) {
+    if (preferred - offset >= minTop) tops.push(preferred - offset);
+    if (preferred + offset <= maxTop) tops.push(preferred + offset);
+  }
+  return tops;
+};
+
+const toLayoutLine = (line: Line, slot: Span, y: number): LayoutLine => ({
+  text: line.text,
+  x: (slot.left + slot.right) / 2,
+  y,
+  width: slot.right - slot.left,
+  justify: !line.final,
+});
+
+/**
+ * Measures each piece of text once, at `MEASURE_SIZE`, and scales its width to
+ * whatever size is asked for; spacing is set in em, so it scales along. The
+ * size search then measures every token once instead of once per size.
+ */
+const scaledMeasure = (ctx: RenderContext, fontFamily: string, typography: Typography) => {
+  const widths = new Map<string, number>();
+  return (fontSize: number): MeasureText => (text) => {
+    let width = widths.get(text);
+    if (width === undefined) {
+      applyFont(ctx, MEASURE_SIZE, fontFamily, typography);
+      width = ctx.measureText(text).width;
+      widths.set(text, width);
+    }
+    return (width * fontSize) / MEASURE_SIZE;
+  };
+};
+
+const layoutAt = (
+  measure: MeasureText,
+  tokens: Token[],
+  frame: TextFrame,
+  fontSize: number,
+  typography: Typography,
+  options: BreakOptions,
+) => {
+  const lineHeight = fontSize * typography.lineHeight;
+  const band = memoizedBands(frame, lineHeight);
+  const bounds = polygonBounds(frame.outline);
+  const widest = Math.max(1, bounds.width - 2 * frame.padding);
+  const wordWidths = tokens.map((token) => measure(token.text));
+
+  // A word wider than the shape fits no block; only splitting it can help
+  const unbreakable = !options.breakWords && wordWidths.some((width) => width > widest);
+
+  // Lines are never wider than the shape, and each paragraph starts a new one,
+  // which bounds the counts worth trying from below; the height bounds them from above
+  const minLines = Math.max(
+    Math.ceil(wordWidths.reduce((sum, width) => sum + width, 0) / widest),
+    tokens.filter((token) => token.hardBreak).length + 1,
+  );
+  const maxLines = Math.floor(bounds.height / lineHeight);
+
+  // Try ever taller blocks, slid along the shape, until the words fit the
+  // slots the outline allows
+  for (let count = minLines; !unbreakable && count <= maxLines; count++) {
+    const tops = blockTops(frame, count, lineHeight, typography.verticalAlign);
+    if (!tops.length) break;
+
+    const attempt = (top: number) => {
+      const slots = slotsAt(frame, top, count, lineHeight, band);
+      const lines = slots && breakLines(measure, tokens, (i) => slots[i] && slots[i].right - slots[i].left, options);
+      return lines && lines.map((line, i) => toLayoutLine(line, slots[i], top + (i + 0.5) * lineHeight));
+    };
+
+    for (let t = 0; t < tops.length; t++) {
+      let lines = attempt(tops[t]);
+      if (!lines) continue;
+
+      // Candidates are half a line apart: close the gap towards the last one
+      // that failed on the same side, so the block sits as near the anchor as it can
+      const side = Math.sign(tops[t] - tops[0]);
+      let failed = tops.slice(0, t).reverse().find((top) => Math.sign(top - tops[0]) === side);
+      let fitted = tops[t];
+      for (let i = 0; failed !== undefined && i < 3; i++) {
+        const middle = (failed + fitted) / 2;
+        const refined = attempt(middle);
+        if (refined) {
+          lines = refined;
+          fitted = middle;
+        } else {
+          failed = middle;
+        }
+      }
+      return { fontSize, fits: true, unbreakable, lines };
+    }
+  }
+
+  // Nothing fits inside the outline: fall back to the rectangular text box
+  const { box } = frame;
+  const lines = breakLines(measure, tokens, () => box.width, { ...options, breakWords: true, overflow: true });
+  const blockHeight = lines.length * lineHeight;
+  const top = typography.verticalAlign === 'top'
+    ? box.centerY - box.height / 2
+    : typography.verticalAlign === 'bottom'
+      ? box.centerY + box.height / 2 - blockHeight
+      : box.centerY - blockHeight / 2;
+  const slot = { left: box.centerX - box.width / 2, right: box.centerX + box.width / 2 };
+  return {
+    fontSize,
+    fits: false,
+    unbreakable,
+    lines: lines.map((line, i) => toLayoutLine(line, slot, top + (i + 0.5) * lineHeight)),
+  };
+};
+
+export interface LayoutOptions {
+  sizing: FontSizing;
+  hyphenate: boolean;
+  fontFamily: string;
+  typography: Typography;
+}
+
+/**
+ * Picks the font size and lays `text` out inside `frame`. In auto mode this is
+ * a binary search for the largest size within the bounds whose lines fit the
+ * shape, preferring sizes that need no word to be split; if even the minimum
+ * overflows, the minimum is used. Leaves the context's font set to the chosen size.
+ */
+export function layoutText(ctx: RenderContext, text: string, frame: TextFrame, { sizing, hyphenate, ...style }: LayoutOptions): TextLayout {
+  const tokens = tokenize(text);
+  const measureAt = scaledMeasure(ctx, style.fontFamily, style.typography);
+  const layout = (fontSize: number, breakWords: boolean) =>
+    layoutAt(measureAt(fontSize), tokens, frame, fontSize, style.typography, { breakWords, hyphenate });
+
+  if (sizing.mode === 'fixed') {
+    const { lines } = layout(sizing.size, true);
+    applyFont(ctx, sizing.size, style.fontFamily, style.typography);
+    return { fontSize: sizing.size, lines };
+  }
+
+  const search = (breakWords: boolean) => {
+    let best = layout(sizing.min, breakWords);
+    if (!best.fits) return best;
+
+    let low = sizing.min;
+    let high = sizing.max;
+    while (high - low > 0.5) {
+      const candidate = layout((low + high) / 2, breakWords);
+      if (candidate.fits) {
+        best = candidate;
+        low = candidate.fontSize;
+      } else {
+        high = candidate.fontSize;
+      }
+    }
+    const atMax = layout(sizing.max, breakWords);
+    return atMax.fits ? atMax : best;
+  };
+
+  // Splitting words is only worth a second search when a word is too wide for any line
+  let best = search(false);
+  if (!best.fits && best.unbreakable) best = search(true);
+
+  applyFont(ctx, best.fontSize, style.fontFamily, style.typography);
+  return { fontSize: best.fontSize, lines: best.lines };
+}
+
+interface CalligramSlot {
+  y: number;
+  span: Span;
+}
+
+/**
+ * Rows of slots filling the outline from top to bottom, with the leftover
+ * height split above and below. A row has a slot for every part of the shape
+ * it crosses, such as both lobes of a heart; slivers under a line high are skipped.
+ */
+const calligramSlots = (frame: TextFrame, lineHeight: number): CalligramSlot[] => {
+  const { top, height } = polygonBounds(frame.outline);
+  const count = Math.floor(height / lineHeight);
+  const start = top + (height - count * lineHeight) / 2;
+  const inset = lineHeight * 0.1;
+  const slots: CalligramSlot[] = [];
+  for (let i = 0; i < count; i++) {
+    const bandTop = start + i * lineHeight;
+    bandSpans(frame.outline, bandTop, bandTop + lineHeight).forEach(({ left, right }) => {
+      if (right - left - inset * 2 < lineHeight) return;
+      slots.push({ y: bandTop + lineHeight / 2, span: { left: left + inset, right: right - inset } });
+    });
+  }
+  return slots;
+};
+
+const slotWidth = ({ span }: CalligramSlot) => span.right - span.left;
+
+const calligramLine = (text: string, { y, span }: CalligramSlot, justify: boolean): LayoutLine => ({
+  text,
+  x: (span.left + span.right) / 2,
+  y,
+  width: span.right - span.left,
+  justify,
+});
+
+/**
+ * Fills every slot with the text over and over. Paragraph breaks turn into
+ * spaces, since a text that never ends has no paragraphs; a word too wide for
+ * a slot waits for the next one that fits it.
+ */
+const repeatLines = (ctx: RenderContext, tokens: Token[], slots: CalligramSlot[]): LayoutLine[] => {
+  const cycle = tokens
+    .filter((token) => token.text)
+    .map((token, i, all) => ({
+      ...token,
+      hardBreak: false,
+      trailing: token.trailing || (token.hardBreak || i === all.length - 1 ? ' ' : ''),
+    }));
+  if (!cycle.length) return [];
+
+  let next = 0;
+  return slots.flatMap((slot) => {
+    const width = slotWidth(slot);
+    const line: Token[] = [];
+    // Bounded by the cycle length, so zero-width text cannot loop forever
+    while (line.length < cycle.length * 8) {
+      const candidate = [...line, cycle[next % cycle.length]];
+      if (ctx.measureText(lineText(candidate)).width > width) break;
+      line.push(candidate[candidate.length - 1]);
+      next += 1;
+    }
+    return line.length ? [calligramLine(lineText(line), slot, true)] : [];
+  });
+};
+
+/** Breaks the text once across the slots; null when it needs more of them. */
+const flowLines = (ctx: RenderContext, tokens: Token[], slots: CalligramSlot[], options: BreakOptions) => {
+  const lines = breakLines(measureWith(ctx), tokens, (i) => slots[i] && slotWidth(slots[i]), options);
+  return lines && lines.map((line, i) => calligramLine(line.text, slots[i], !line.final));
+};
+
+/**
+ * Lays `text` out as a calligram: lines in every row of the shape, each as
+ * wide as the outline allows there, so the letters trace the silhouette.
+ * `repeat` sizes the font for `rows` rows and repeats the text to fill them;
+ * `flow` finds the largest size at which the text, once, fills the shape.
+ * Fixed sizes are used as given, dropping whatever text does not fit.
+ * Leaves the context's font set to the chosen size.
+ */
+export function layoutCalligram(
+  ctx: RenderContext,
+  text: string,
+  frame: TextFrame,
+  { sizing, hyphenate, fontFamily, typography }: LayoutOptions,
+  { mode, rows }: Pick<Calligram, 'mode' | 'rows'>,
+): TextLayout {
+  const tokens = tokenize(text);
+  const slotsFor = (fontSize: number) => {
+    applyFont(ctx, fontSize, fontFamily, typography);
+    return calligramSlots(frame, fontSize * typography.lineHeight);
+  };
+
+  if (mode === 'repeat') {
+    const { height } = polygonBounds(frame.outline);
+    const fontSize = sizing.mode === 'fixed'
+      ? sizing.size
+      : Math.min(sizing.max, Math.max(sizing.min, height / (rows * typography.lineHeight)));
+    return { fontSize, lines: repeatLines(ctx, tokens, slotsFor(fontSize)) };
+  }
+
+  const flowAt = (fontSize: number, breakWords: boolean) => flowLines(ctx, tokens, slotsFor(fontSize), { breakWords, hyphenate });
+  const overflowAt = (fontSize: number) => {
+    const slots = slotsFor(fontSize);
+    if (!slots.length) return { fontSize, lines: [] };
+    const lines = breakLines(measureWith(ctx), tokens, (i) => slotWidth(slots[Math.min(i, slots.length - 1)]), {
+      breakWords: true,
+      hyphenate,
+      overflow: true,
+    });
+    return { fontSize, lines: lines.slice(0, slots.length).map((line, i) => calligramLine(line.text, slots[i], !line.final)) };
+  };
+
+  if (sizing.mode === 'fixed') {
+    const lines = flowAt(sizing.size, true);
+    return lines ? { fontSize: sizing.size, lines } : overflowAt(sizing.size);
+  }
+
+  // Same search as `layoutText`: the largest size that fits, preferring no split words
+  const search = (breakWords: boolean) => {
+    let best: TextLayout | null = null;
+    let low = sizing.min;
+    let high = sizing.max;
+    const atMax = flowAt(high, breakWords);
+    if (atMax) return { fontSize: high, lines: atMax };
+    while (high - low > 0.5) {
+      const fontSize = (low + high) / 2;
+      const lines = flowAt(fontSize, breakWords);
+      if (lines) {
+        best = { fontSize, lines };
+        low = fontSize;
+      } else {
+        high = fontSize;
+      }
+    }
+    if (best) return best;
+    const atMin = flowAt(sizing.min, breakWords);
+    return atMin && { fontSize: sizing.min, lines: atMin };
+  };
+
+  const best = search(false) ?? search(true) ?? overflowAt(sizing.min);
+  applyFont(ctx, best.fontSize, fontFamily, typography);
+  return best;
+}
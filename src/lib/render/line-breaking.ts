@@ -0,0 +1,230 @@
+import type { RenderContext } from "./types";
+
+/**
+ * An unbreakable run of text plus what follows it. Lines may only break
+ * between tokens (or, as a last resort, between graphemes inside one).
+ */
+export interface Token {
+  text: string;
+  /** Whitespace, or a soft hyphen, that disappears when a line breaks here. */
+  trailing: string;
+  /** An explicit newline follows, so the line must end here. */
+  hardBreak?: boolean;
+}
+
+export interface Line {
+  text: string;
+  /** Ends at a newline or the end of the text rather than wrapping, so is never justified. */
+  final: boolean;
+}
+
+/** Width of a piece of text in pixels, in whatever font is being laid out. */
+export type MeasureText = (text: string) => number;
+
+export const measureWith = (ctx: RenderContext): MeasureText => (text) => ctx.measureText(text).width;
+
+export interface BreakOptions {
+  /** Allow splitting a token that is wider than a whole line at grapheme boundaries. */
+  breakWords: boolean;
+  /** Add a hyphen where a word in an alphabetic script is split. */
+  hyphenate: boolean;
+  /** Place pieces that cannot fit even an empty line anyway, instead of failing. */
+  overflow?: boolean;
+}
+
+const SOFT_HYPHEN = '\u00AD';
+const WHITESPACE = /^\s+$/;
+const BREAK_AFTER = /[-‐–—/。、，！？」』）】〕]$/;
+const OPENING_PUNCTUATION = /^[([{«“‘「『（【〔]+$/;
+// Built at runtime so the production target does not need to transpile it
+const HYPHENATABLE = new RegExp('[\\p{Script=Latin}\\p{Script=Greek}\\p{Script=Cyrillic}]', 'u');
+
+const wordSegmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null;
+const graphemeSegmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null;
+
+export function splitGraphemes(text: string): string[] {
+  if (!graphemeSegmenter) return Array.from(text);
+  return Array.from(graphemeSegmenter.segment(text), (segment) => segment.segment);
+}
+
+const splitSoftHyphens = (tokens: Token[]) => tokens.flatMap((token) => {
+  const parts = token.text.split(SOFT_HYPHEN).filter(Boolean);
+  return parts.map((text, i) => i === parts.length - 1 ? { ...token, text } : { text, trailing: SOFT_HYPHEN });
+});
+
+/**
+ * Splits text into break opportunities. With `Intl.Segmenter` this follows the
+ * word boundaries of every script, so CJK and Thai break between words even
+ * without spaces; punctuation sticks to the word before it, opening brackets
+ * to the word after. Without it, text breaks at whitespace, hyphens and slashes.
+ *
+ * Newlines are hard breaks; a blank line becomes an empty line, which is what
+ * separates paragraphs.
+ */
+export function tokenize(text: string): Token[] {
+  const paragraphs = text.replace(/^\s*\n|\n\s*$/g, '').split(/\r?\n/);
+  return paragraphs.flatMap((line, i) => {
+    const tokens = tokenizeLine(line);
+    if (i === paragraphs.length - 1) return tokens;
+    if (!tokens.length) return [{ text: '', trailing: '', hardBreak: true }];
+    tokens[tokens.length - 1].hardBreak = true;
+    return tokens;
+  });
+}
+
+const tokenizeLine = (text: string): Token[] => {
+  const tokens: Token[] = [];
+
+  if (!wordSegmenter) {
+    for (const chunk of text.split(/(\s+)/)) {
+      if (!chunk) continue;
+      if (WHITESPACE.test(chunk)) {
+        if (tokens.length) tokens[tokens.length - 1].trailing += chunk;
+        continue;
+      }
+      chunk.match(/[^-‐–—/]*[-‐–—/]*/g).filter(Boolean).forEach((part) => tokens.push({ text: part, trailing: '' }));
+    }
+    return splitSoftHyphens(tokens);
+  }
+
+  let current: Token | null = null;
+  let previousWordLike = false;
+  let openPending = false;
+
+  for (const { segment, isWordLike } of wordSegmenter.segment(text)) {
+    if (WHITESPACE.test(segment)) {
+      if (current) current.trailing += segment;
+      previousWordLike = false;
+      continue;
+    }
+
+    const startsToken = !current
+      || current.trailing !== ''
+      || (!openPending && isWordLike && (previousWordLike || BREAK_AFTER.test(current.text)))
+      || (!isWordLike && OPENING_PUNCTUATION.test(segment) && !openPending);
+
+    if (startsToken) {
+      current = { text: segment, trailing: '' };
+      tokens.push(current);
+    } else {
+      current.text += segment;
+    }
+
+    openPending = !isWordLike && OPENING_PUNCTUATION.test(segment);
+    previousWordLike = isWordLike;
+  }
+
+  return splitSoftHyphens(tokens);
+};
+
+/** Renders a line, dropping the trailing whitespace and showing a soft hyphen it breaks at. */
+export function lineText(tokens: Token[]): string {
+  return tokens
+    .map((token, i) => {
+      if (i < tokens.length - 1) return token.trailing === SOFT_HYPHEN ? token.text : token.text + token.trailing;
+      return token.trailing === SOFT_HYPHEN ? `${token.text}-` : token.text;
+    })
+    .join('');
+}
+
+const canHyphenate = (before: string, after: string) =>
+  HYPHENATABLE.test(before) && HYPHENATABLE.test(after);
+
+/**
+ * Greedy line breaking. `lineWidth(i)` gives the width available to line `i`,
+ * or undefined when there is no line `i`. Returns null if the text runs out of
+ * lines, or if a token (or grapheme) cannot fit and overflow is not allowed.
+ * Line widths are summed from the widths of their tokens, and split words from
+ * their graphemes, so each piece is measured once however often it is tried.
+ */
+export function breakLines(
+  measure: MeasureText,
+  tokens: Token[],
+  lineWidth: (index: number) => number | undefined,
+  { breakWords, hyphenate, overflow = false }: BreakOptions,
+): Line[] | null {
+  const lines: Line[] = [];
+  let current: Token[] = [];
+  // The current line's tokens with the space after each, which the next token follows
+  let currentWidth = 0;
+  const endWidth = (token: Token) => measure(token.trailing === SOFT_HYPHEN ? `${token.text}-` : token.text);
+  const fits = (token: Token, width: number) => currentWidth + endWidth(token) <= width;
+  const endLine = (final: boolean) => {
+    lines.push({ text: lineText(current), final });
+    current = [];
+    currentWidth = 0;
+  };
+  const place = (token: Token) => {
+    current.push(token);
+    currentWidth += measure(token.trailing === SOFT_HYPHEN ? token.text : token.text + token.trailing);
+    if (token.hardBreak) endLine(true);
+  };
+
+  for (const token of tokens) {
+    let width = lineWidth(lines.length);
+    if (width === undefined) return null;
+
+    if (fits(token, width)) {
+      place(token);
+      continue;
+    }
+
+    if (current.length) {
+      endLine(false);
+      width = lineWidth(lines.length);
+      if (width === undefined) return null;
+    }
+
+    if (fits(token, width)) {
+      place(token);
+      continue;
+    }
+
+    if (!breakWords) {
+      if (!overflow) return null;
+      lines.push({ text: token.text, final: Boolean(token.hardBreak) });
+      continue;
+    }
+
+    // The token is wider than a whole line: split it between graphemes
+    let rest = splitGraphemes(token.text);
+    while (rest.length) {
+      const remainder = { ...token, text: rest.join('') };
+      if (fits(remainder, width)) {
+        place(remainder);
+        break;
+      }
+
+      // The longest start of the rest that fits, with a hyphen where the script takes one
+      let count = 0;
+      let piece = '';
+      let used = 0;
+      for (let next = 1; next < rest.length; next++) {
+        used += measure(rest[next - 1]);
+        if (used > width) break;
+        const hyphen = hyphenate && canHyphenate(rest[next - 1], rest[next]) ? '-' : '';
+        if (used + (hyphen ? measure(hyphen) : 0) <= width) {
+          count = next;
+          piece = rest.slice(0, next).join('') + hyphen;
+        }
+      }
+      if (count === 0) {
+        if (!overflow) return null;
+        count = 1;
+        piece = rest[0];
+      }
+
+      lines.push({ text: piece, final: false });
+      rest = rest.slice(count);
+      width = lineWidth(lines.length);
+      if (width === undefined) return null;
+    }
+  }
+  if (current.length) {
+    endLine(true);
+  } else if (lines.length) {
+    lines[lines.length - 1].final = true;
+  }
+
+  return lines;
+}
@@ -0,0 +1,211 @@
+import { cubicBezierPoints, roundedRectPoints, starPoints, type Point } from "../geometry";
+import { registerShape } from "../registry";
+import { polygonPath, polygonShape } from "../shapes";
+import type { ShapeParams } from "../types";
+
+// Speech and thought bubbles, badges and stickers, arrows and blobs
+
+/** Rounded corners of the speech bubble body, in pixels. */
+const bubbleRadius = (width: number, height: number) => Math.min(width, height) * 0.12;
+
+/** Where the bubble tail leaves the body (x) and how long it is (pixels). */
+const bubbleTail = (width: number, height: number, { tailPosition, tailSize }: ShapeParams) => {
+  const length = height * tailSize;
+  const halfBase = Math.min(width, height) * 0.08;
+  const inset = bubbleRadius(width, height - length) + halfBase;
+  return { x: inset + (width - inset * 2) * tailPosition, length, halfBase };
+};
+
+/** A rounded body with a tail from its bottom edge, leaning towards the nearer side. */
+const speechPoints = (width: number, height: number, params: ShapeParams): Point[] => {
+  const tail = bubbleTail(width, height, params);
+  const bodyHeight = height - tail.length;
+  const radius = bubbleRadius(width, bodyHeight);
+  const segments = 16;
+  const body = roundedRectPoints(width, bodyHeight, [radius, radius, radius, radius], segments);
+  const lean = (params.tailPosition - 0.5) * 3 * tail.halfBase;
+  // The bottom edge runs leftwards from the end of the third (bottom-right) corner
+  const bottomRight = (segments + 1) * 3;
+  return [
+    ...body.slice(0, bottomRight),
+    { x: tail.x + tail.halfBase, y: bodyHeight },
+    { x: tail.x + lean, y: height },
+    { x: tail.x - tail.halfBase, y: bodyHeight },
+    ...body.slice(bottomRight),
+  ];
+};
+
+/** A scalloped cloud above the thought bubble's trail of circles. */
+const cloudPoints = (width: number, height: number, params: ShapeParams): Point[] => {
+  const bodyHeight = height - bubbleTail(width, height, params).length;
+  const bumps = 10;
+  return Array.from({ length: 160 }, (_, i) => {
+    const angle = (i / 160) * Math.PI * 2;
+    const scale = 0.88 + 0.12 * Math.abs(Math.sin((bumps / 2) * angle));
+    return {
+      x: width / 2 + (width / 2) * scale * Math.cos(angle),
+      y: bodyHeight / 2 + (bodyHeight / 2) * scale * Math.sin(angle),
+    };
+  });
+};
+
+/** A banner with forked ends. */
+const ribbonPoints = (width: number, height: number): Point[] => {
+  const notch = Math.min(width * 0.12, height * 0.4);
+  return [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width - notch, y: height / 2 },
+    { x: width, y: height },
+    { x: 0, y: height },
+    { x: notch, y: height / 2 },
+  ];
+};
+
+/** Where the price tag's body ends and its point begins. */
+const tagNeck = (width: number, height: number) => Math.min(width * 0.25, height * 0.5);
+
+const tagPoints = (width: number, height: number): Point[] => {
+  const neck = tagNeck(width, height);
+  return [
+    { x: neck, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: neck, y: height },
+    { x: 0, y: height / 2 },
+  ];
+};
+
+/** Straight sides that curve into a point at the bottom. */
+const shieldPoints = (width: number, height: number): Point[] => {
+  const shoulder = height * 0.45;
+  const bottom = { x: width / 2, y: height };
+  return [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: shoulder },
+    ...cubicBezierPoints(
+      { x: width, y: shoulder },
+      { x: width, y: height * 0.75 },
+      { x: width * 0.75, y: height * 0.9 },
+      bottom,
+    ),
+    ...cubicBezierPoints(
+      bottom,
+      { x: width * 0.25, y: height * 0.9 },
+      { x: 0, y: height * 0.75 },
+      { x: 0, y: shoulder },
+    ),
+  ];
+};
+
+/** A right-pointing arrow: a shaft half the height and a full-height head. */
+const arrowPoints = (width: number, height: number): Point[] => {
+  const head = width - Math.min(width * 0.4, height * 0.6);
+  return [
+    { x: 0, y: height * 0.25 },
+    { x: head, y: height * 0.25 },
+    { x: head, y: 0 },
+    { x: width, y: height / 2 },
+    { x: head, y: height },
+    { x: head, y: height * 0.75 },
+    { x: 0, y: height * 0.75 },
+  ];
+};
+
+/** Mulberry32: a small, fast PRNG whose sequence is fixed by its seed. */
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * An organic outline through eight randomly pushed-in points around the
+ * centre, joined by a closed Catmull-Rom spline.
+ */
+const blobPoints = (width: number, height: number, { seed }: ShapeParams): Point[] => {
+  const random = seededRandom(seed);
+  const count = 8;
+  const anchors = Array.from({ length: count }, (_, i) => {
+    const angle = ((i + (random() - 0.5) * 0.5) / count) * Math.PI * 2;
+    const radius = 0.7 + random() * 0.3;
+    return {
+      x: width / 2 + (width / 2) * radius * Math.cos(angle),
+      y: height / 2 + (height / 2) * radius * Math.sin(angle),
+    };
+  });
+  const at = (i: number) => anchors[(i + count) % count];
+  return anchors.flatMap((p1, i) => {
+    const p0 = at(i - 1);
+    const p2 = at(i + 1);
+    const p3 = at(i + 2);
+    return cubicBezierPoints(
+      p1,
+      { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+      { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+      p2,
+    );
+  });
+};
+
+/** How far a burst's inner corners sit from the centre, relative to its rays. */
+const BURST_INNER_RATIO = 0.82;
+
+registerShape('speech', {
+  label: 'Speech Bubble',
+  category: 'Callouts',
+  params: ['tailPosition', 'tailSize'],
+  ...polygonShape(speechPoints),
+});
+// Text stays in the cloud; the trail of circles is only drawn
+registerShape('thought', {
+  label: 'Thought Bubble',
+  category: 'Callouts',
+  params: ['tailPosition', 'tailSize'],
+  path: (width, height, params) => {
+    const path = polygonPath(cloudPoints(width, height, params));
+    const tail = bubbleTail(width, height, params);
+    const bodyHeight = height - tail.length;
+    const direction = params.tailPosition < 0.5 ? -1 : 1;
+    [0.32, 0.18].forEach((size, i) => {
+      const radius = tail.length * size;
+      const x = tail.x + direction * tail.halfBase * (i + 1);
+      const y = i === 0 ? bodyHeight + radius * 0.6 : height - radius;
+      path.moveTo(x + radius, y);
+      path.arc(x, y, radius, 0, Math.PI * 2);
+    });
+    return path;
+  },
+  outline: cloudPoints,
+});
+registerShape('arrow', { label: 'Arrow', category: 'Callouts', ...polygonShape(arrowPoints) });
+registerShape('ribbon', { label: 'Ribbon', category: 'Badges', ...polygonShape(ribbonPoints) });
+// The string hole is cut out of the point, so text keeps to the tag's body
+registerShape('tag', {
+  label: 'Price Tag',
+  category: 'Badges',
+  path: (width, height) => {
+    const path = polygonPath(tagPoints(width, height));
+    const neck = tagNeck(width, height);
+    const radius = Math.min(width, height) * 0.05;
+    path.moveTo(neck * 0.6 + radius, height / 2);
+    path.arc(neck * 0.6, height / 2, radius, 0, Math.PI * 2, true);
+    return path;
+  },
+  outline: (width, height) => tagPoints(width, height).slice(0, 4),
+});
+registerShape('shield', { label: 'Shield', category: 'Badges', ...polygonShape(shieldPoints) });
+registerShape('burst', {
+  label: 'Burst',
+  category: 'Badges',
+  params: ['rays', 'rotation'],
+  ...polygonShape((width, height, { rays, rotation }) =>
+    starPoints(width / 2, height / 2, Math.min(width, height) / 2, rays, BURST_INNER_RATIO, rotation)),
+});
+registerShape('blob', { label: 'Blob', category: 'Organic', params: ['seed'], ...polygonShape(blobPoints) });
@@ -0,0 +1,10 @@
+// Every module that registers entries is imported here, and nothing may
+// register after it. Both the app and the render worker load this module, so
+// they know the same shapes, schemes and effects; a pack added here works in both.
+import "../shapes";
+import "../color-schemes";
+import "./extended-shapes";
+import "./text-effects";
+import { sealRegistries } from "../registry";
+
+sealRegistries();
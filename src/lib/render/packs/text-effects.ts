@@ -0,0 +1,40 @@
+import { formatHex, parseColor, toCanvasColor } from "../colors";
+import { registerEffect } from "../registry";
+
+/** The scheme's shadow colour made opaque, so stacked copies don't darken. */
+const solidShadow = (color: string) => {
+  const parsed = parseColor(color);
+  return parsed ? formatHex({ ...parsed, alpha: 1 }) : '#000000';
+};
+
+// A block of copies stepping down to the right, one pixel apart
+registerEffect('extrude', {
+  label: 'Extrude',
+  category: '3D',
+  icon: 'M2 5h9v9H2zM2 5l3-3h9l-3 3M11 14l3-3V2',
+  layer: 'under',
+  draw: (ctx, { layout, scheme, fillText }) => {
+    const depth = Math.max(1, Math.round(layout.fontSize * 0.08));
+    ctx.fillStyle = toCanvasColor(solidShadow(scheme.shadow));
+    for (let step = depth; step > 0; step--) {
+      ctx.save();
+      ctx.translate(step, step);
+      fillText();
+      ctx.restore();
+    }
+  },
+});
+
+// Layered glows in the text colour, tight to wide
+registerEffect('neon', {
+  label: 'Neon',
+  category: 'Light',
+  icon: 'M8 1v3M8 12v3M1 8h3M12 8h3M8 5.5a2.5 2.5 0 1 0 0 5a2.5 2.5 0 1 0 0-5',
+  layer: 'under',
+  draw: (ctx, { layout, scheme, fillText, paintShadow }) => {
+    ctx.fillStyle = '#000000';
+    [0.1, 0.25, 0.5].forEach((spread) => {
+      paintShadow({ color: scheme.text, blur: layout.fontSize * spread, offsetX: 0, offsetY: 0 }, fillText);
+    });
+  },
+});
@@ -0,0 +1,53 @@
+import { TextArtSpecError, parseTextArtSpec, type TextArtSpec } from "./spec";
+
+export const DESIGN_ROUTE = '/design';
+export const RENDER_ROUTE = '/render';
+export const DESIGN_PARAM = 'd';
+
+// base64url keeps the whole design in a single query value made of [A-Za-z0-9_-].
+// That matters on GitHub Pages: public/404.html folds deep links into
+// `/?/design&d=...` and rewrites every `&` in the original query to `~and~`,
+// so anything containing `&`, `~` or `=` inside the value would not survive the
+// round trip through index.html.
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+export function encodeSpecParam(spec: TextArtSpec): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(spec)));
+}
+
+/** Decodes and validates a `d` param. Throws `TextArtSpecError` on failure. */
+export function decodeSpecParam(value: string): TextArtSpec {
+  let input: unknown;
+  try {
+    input = JSON.parse(new TextDecoder().decode(fromBase64Url(value)));
+  } catch {
+    throw new TextArtSpecError(['Link is truncated or corrupted']);
+  }
+  return parseTextArtSpec(input);
+}
+
+export function buildDesignSearch(spec: TextArtSpec): string {
+  return `?${DESIGN_PARAM}=${encodeSpecParam(spec)}`;
+}
+
+/** Absolute link that reopens `spec` in the generator. */
+export function buildDesignUrl(spec: TextArtSpec, origin = window.location.origin): string {
+  return `${origin}${DESIGN_ROUTE}${buildDesignSearch(spec)}`;
+}
+
+/** Absolute link to the bare rendered image, for embedding in docs and dashboards. */
+export function buildRenderUrl(spec: TextArtSpec, origin = window.location.origin): string {
+  return `${origin}${RENDER_ROUTE}${buildDesignSearch(spec)}`;
+}
@@ -0,0 +1,86 @@
+import type { ColorSchemeConfig } from "./color-schemes";
+import type { EffectConfig } from "./effects";
+import type { ShapeConfig } from "./shapes";
+import type { ShapeParams } from "./types";
+
+/** What the option selects show for an entry. */
+export interface RegistryMeta {
+  label: string;
+  /** Selects group entries by category, in the order categories first appear. */
+  category: string;
+  /**
+   * SVG path data drawn in a 16 × 16 box. Shapes without one show their
+   * outline and schemes a swatch of their background.
+   */
+  icon?: string;
+}
+
+export interface ShapeDefinition extends ShapeConfig, RegistryMeta {
+  /** Which `ShapeParams` the shape reads, and so which settings the editor offers. */
+  params?: (keyof ShapeParams)[];
+}
+
+export interface SchemeDefinition extends RegistryMeta {
+  scheme: ColorSchemeConfig;
+}
+
+export interface EffectDefinition extends EffectConfig, RegistryMeta {}
+
+export type Registered<T> = T & { id: string };
+
+// Set once the pack index has loaded; see `sealRegistries`
+let sealed = false;
+
+/**
+ * A set of named entries that modules add to when they are imported. Ids are
+ * what designs store, so registering one twice is a mistake, not an override.
+ */
+const createRegistry = <T extends RegistryMeta>(kind: string, reserved: string[] = []) => {
+  const entries = new Map<string, T>();
+  return {
+    register: (id: string, definition: T) => {
+      if (sealed) {
+        throw new Error(`The ${kind} "${id}" must be registered by a module that packs/index.ts imports`);
+      }
+      if (!id.trim() || reserved.includes(id)) throw new Error(`"${id}" cannot be used as a ${kind} id`);
+      if (entries.has(id)) throw new Error(`A ${kind} named "${id}" is already registered`);
+      entries.set(id, definition);
+    },
+    get: (id: string): T | undefined => entries.get(id),
+    list: (): Registered<T>[] => Array.from(entries, ([id, definition]) => ({ ...definition, id })),
+  };
+};
+
+const shapes = createRegistry<ShapeDefinition>('shape');
+// 'custom' stands for the scheme a design embeds
+const schemes = createRegistry<SchemeDefinition>('color scheme', ['custom']);
+const effects = createRegistry<EffectDefinition>('effect');
+
+export const registerShape = shapes.register;
+export const getShape = shapes.get;
+export const listShapes = shapes.list;
+
+export const registerScheme = schemes.register;
+export const getScheme = schemes.get;
+export const listSchemes = schemes.list;
+
+export const registerEffect = effects.register;
+export const getEffect = effects.get;
+export const listEffects = effects.list;
+
+/**
+ * Closes the registries to new entries. The app and the render worker each
+ * load the pack index, which calls this once every module it imports has
+ * registered its entries; an entry added anywhere else would show up in the
+ * editor while the worker could not render it.
+ */
+export function sealRegistries() {
+  sealed = true;
+}
+
+/** Entries grouped by category, both in registration order. */
+export function groupByCategory<T extends RegistryMeta>(entries: T[]): { category: string; entries: T[] }[] {
+  const groups = new Map<string, T[]>();
+  entries.forEach((entry) => groups.set(entry.category, [...(groups.get(entry.category) ?? []), entry]));
+  return Array.from(groups, ([category, grouped]) => ({ category, entries: grouped }));
+}
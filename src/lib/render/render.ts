@@ -0,0 +1,313 @@
+import { polygonBounds, polygonCentroid } from "./geometry";
+import { toCanvasColor } from "./colors";
+import { createTextFill, type EffectContext, type FillBox, type ShadowPaint } from "./effects";
+import { createBackground } from "./gradients";
+import { TEXT_PADDING, layoutCalligram, layoutText, type LayoutLine, type TextFrame, type TextLayout } from "./layout";
+import { getEffect } from "./registry";
+import { inscribedTextArea, resolveShape } from "./shapes";
+import { layoutTextPath } from "./text-path";
+import type { BorderStyle, RenderCanvas, RenderContext, RenderSpec, TextAlign, Typography } from "./types";
+
+export const JPEG_QUALITY = 0.9;
+
+/** The most a drop shadow's margin may take from each side, relative to the shorter one. */
+const MAX_SHADOW_MARGIN = 0.25;
+
+/**
+ * Where the shape sits in the image: inset on every side by the margin its
+ * drop shadow needs to stay on the canvas, otherwise filling the image.
+ * Layout and background coordinates are relative to this area.
+ */
+export function shapeArea(spec: RenderSpec) {
+  const { shadow } = spec.shapeStyle;
+  const reach = shadow.enabled
+    ? Math.ceil(shadow.blur + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)))
+    : 0;
+  const margin = Math.min(reach, Math.floor(Math.min(spec.width, spec.height) * MAX_SHADOW_MARGIN));
+  return { margin, width: spec.width - margin * 2, height: spec.height - margin * 2 };
+}
+
+/** Dash pattern for a border stroke of `lineWidth`. */
+const borderDash = (style: BorderStyle, lineWidth: number): number[] => {
+  if (style === 'dashed') return [lineWidth * 2, lineWidth];
+  if (style === 'dotted') return [0, lineWidth * 1.5];
+  return [];
+};
+
+type PaintText = (text: string, x: number, y: number) => void;
+
+/** How lines are aligned: calligram lines always stretch to the outline. */
+export const textAlign = (spec: RenderSpec): TextAlign =>
+  spec.calligram.mode === 'off' ? spec.typography.align : 'justify';
+
+const isJustified = (line: LayoutLine, align: TextAlign) => align === 'justify' && line.justify && /\S\s+\S/.test(line.text);
+
+/** Horizontal extent of a line's ink, given the context's current font. */
+export function lineExtent(ctx: RenderContext, line: LayoutLine, align: TextAlign) {
+  const left = line.x - line.width / 2;
+  const right = line.x + line.width / 2;
+  if (isJustified(line, align)) return { left, right };
+
+  const textWidth = ctx.measureText(line.text).width;
+  if (align === 'left' || align === 'justify') return { left, right: left + textWidth };
+  if (align === 'right') return { left: right - textWidth, right };
+  return { left: line.x - textWidth / 2, right: line.x + textWidth / 2 };
+}
+
+/** The box around every line's ink, which gradient fills are spread over. */
+export function textBlockBounds(ctx: RenderContext, layout: TextLayout, typography: Typography): FillBox {
+  if (!layout.lines.length) return { left: 0, top: 0, width: 1, height: 1 };
+  const halfLine = (layout.fontSize * typography.lineHeight) / 2;
+  const extents = layout.lines.map((line) => lineExtent(ctx, line, typography.align));
+  const left = Math.min(...extents.map((extent) => extent.left));
+  const right = Math.max(...extents.map((extent) => extent.right));
+  // Letters along a path are not in top-to-bottom order
+  const top = Math.min(...layout.lines.map((line) => line.y)) - halfLine;
+  const bottom = Math.max(...layout.lines.map((line) => line.y)) + halfLine;
+  return { left, top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+}
+
+/**
+ * Paints only the shadow `paint` casts: the glyphs go a canvas width off to
+ * the left and the shadow is offset back. Shadow offsets and blur ignore the
+ * transform, so they are scaled by hand to match at every resolution.
+ */
+const paintShadow = (ctx: RenderContext, spec: RenderSpec, shadow: ShadowPaint, paint: () => void) => {
+  const { a: scaleX, d: scaleY } = ctx.getTransform();
+  const away = spec.width * 2;
+  ctx.save();
+  ctx.translate(-away, 0);
+  ctx.shadowColor = toCanvasColor(shadow.color);
+  ctx.shadowBlur = shadow.blur * scaleX;
+  ctx.shadowOffsetX = (away + shadow.offsetX) * scaleX;
+  ctx.shadowOffsetY = shadow.offsetY * scaleY;
+  paint();
+  ctx.restore();
+};
+
+/**
+ * Draws one laid-out line with `paint` (a fill or a stroke). Justified lines
+ * spread the leftover room evenly over their spaces; lines without spaces (or
+ * that end a paragraph) stay left-aligned. Turned lines, the letters of text
+ * on a path, are drawn centred on their point.
+ */
+const drawLine = (ctx: RenderContext, line: LayoutLine, align: TextAlign, paint: PaintText) => {
+  if (line.angle !== undefined) {
+    ctx.save();
+    ctx.translate(line.x, line.y);
+    ctx.rotate(line.angle);
+    ctx.textAlign = 'center';
+    paint(line.text, 0, 0);
+    ctx.restore();
+    return;
+  }
+
+  const left = line.x - line.width / 2;
+  const right = line.x + line.width / 2;
+
+  if (align === 'justify') {
+    const parts = line.text.split(/(\s+)/).filter(Boolean);
+    const gaps = parts.filter((part) => /^\s+$/.test(part)).length;
+    ctx.textAlign = 'left';
+    if (!isJustified(line, align)) {
+      paint(line.text, left, line.y);
+      return;
+    }
+
+    const extra = (line.width - ctx.measureText(line.text).width) / gaps;
+    let x = left;
+    parts.forEach((part) => {
+      const width = ctx.measureText(part).width;
+      if (/^\s+$/.test(part)) {
+        x += width + extra;
+      } else {
+        paint(part, x, line.y);
+        x += width;
+      }
+    });
+    return;
+  }
+
+  ctx.textAlign = align;
+  paint(line.text, align === 'left' ? left : align === 'right' ? right : line.x, line.y);
+};
+
+/**
+ * Draws the text image described by `spec` onto `ctx`. The context's canvas is
+ * expected to be `spec.width` × `spec.height` already; see `renderTextImage`.
+ * The spec's font must already be loaded (see `loadFont`), otherwise the text
+ * is measured and drawn in a fallback font. Returns the text layout it drew,
+ * positioned relative to the `shapeArea`.
+ */
+export function drawTextImage(ctx: RenderContext, spec: RenderSpec): TextLayout {
+  const area = shapeArea(spec);
+  const { width, height } = area;
+  const scheme = spec.colorScheme;
+  const { border, shadow: shapeShadow } = spec.shapeStyle;
+  const shapeConfig = resolveShape(spec.shape);
+  const outline = shapeConfig.outline(width, height, spec.shapeParams);
+  const textArea = inscribedTextArea(outline, width, height);
+  const centroid = polygonCentroid(outline);
+  const bounds = polygonBounds(outline);
+  const padding = Math.min(bounds.width, bounds.height) * TEXT_PADDING;
+  const frame: TextFrame = {
+    outline,
+    centerX: centroid.x,
+    centerY: centroid.y,
+    padding,
+    // Like the bands, the box keeps half the padding from the outline
+    box: {
+      centerX: width / 2 + textArea.offsetX,
+      centerY: height / 2 + textArea.offsetY,
+      width: Math.max(1, textArea.width - padding),
+      height: Math.max(1, textArea.height - padding),
+    },
+  };
+
+  ctx.save();
+
+  // JPEG has no alpha, so whatever is left transparent is flattened onto the matte
+  if (spec.format === 'jpeg') {
+    ctx.fillStyle = toCanvasColor(spec.matteColor);
+    ctx.fillRect(0, 0, spec.width, spec.height);
+  }
+  const { outsideBackground } = spec;
+  if (outsideBackground.type !== 'transparent') {
+    ctx.fillStyle = outsideBackground.type === 'solid'
+      ? toCanvasColor(outsideBackground.color)
+      : createBackground(ctx, scheme, spec.width, spec.height);
+    ctx.fillRect(0, 0, spec.width, spec.height);
+  }
+
+  ctx.translate(area.margin, area.margin);
+  const shapePath = shapeConfig.path(width, height, spec.shapeParams);
+
+  // The drop shadow falls outside the shape, so it goes down before clipping.
+  // A calligram without background has no filled shape to cast one
+  const { calligram } = spec;
+  const hasBackground = calligram.mode === 'off' || !calligram.removeBackground;
+  if (shapeShadow.enabled && hasBackground) {
+    paintShadow(ctx, spec, shapeShadow, () => {
+      ctx.fillStyle = '#000000';
+      ctx.fill(shapePath);
+    });
+  }
+
+  // Apply shape clipping
+  ctx.clip(shapePath);
+
+  // Fill the background
+  if (hasBackground) {
+    ctx.fillStyle = createBackground(ctx, scheme, width, height);
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  // Size the font and flow the text line by line inside the shape, or along its path
+  const align = textAlign(spec);
+  const typography = { ...spec.typography, align };
+  const layoutOptions = {
+    sizing: spec.fontSize,
+    hyphenate: spec.hyphenate,
+    fontFamily: spec.fontFamily,
+    typography,
+  };
+  const layout = spec.textPath.mode !== 'off'
+    ? layoutTextPath(ctx, spec.text, frame, layoutOptions, spec.textPath)
+    : calligram.mode === 'off'
+      ? layoutText(ctx, spec.text, frame, layoutOptions)
+      : layoutCalligram(ctx, spec.text, frame, layoutOptions, calligram);
+  ctx.textBaseline = 'middle';
+
+  // Effects stack bottom to top: shadow, glow, registered 'under' effects,
+  // outline, fill, registered 'over' effects
+  const { shadow, glow, outline: textOutline, fill } = spec.effects;
+  const strokeLines = () =>
+    layout.lines.forEach((line) => drawLine(ctx, line, align, (text, x, y) => ctx.strokeText(text, x, y)));
+  const fillLines = () =>
+    layout.lines.forEach((line) => drawLine(ctx, line, align, (text, x, y) => ctx.fillText(text, x, y)));
+
+  // The stroke is centred on the glyph edge and goes underneath the fill, so
+  // only its outer half shows; hence twice the configured width
+  ctx.lineWidth = textOutline.width * layout.fontSize * 2;
+  ctx.lineJoin = 'round';
+
+  // Shadow and glow are cast by the whole silhouette, outline included, in
+  // an opaque colour so a translucent fill doesn't weaken them
+  const silhouette = () => {
+    ctx.fillStyle = '#000000';
+    ctx.strokeStyle = '#000000';
+    if (textOutline.enabled) strokeLines();
+    fillLines();
+  };
+  if (shadow.enabled) {
+    paintShadow(ctx, spec, { ...shadow, color: shadow.color ?? scheme.shadow }, silhouette);
+  }
+  if (glow.enabled) {
+    paintShadow(ctx, spec, { color: glow.color, blur: glow.blur, offsetX: 0, offsetY: 0 }, silhouette);
+  }
+
+  // Registered effects draw in the order the spec lists them, within their layer
+  const effectContext: EffectContext = {
+    layout,
+    scheme,
+    fillText: fillLines,
+    strokeText: strokeLines,
+    paintShadow: (effectShadow, paint) => paintShadow(ctx, spec, effectShadow, paint),
+  };
+  const drawExtras = (layer: 'under' | 'over') => spec.effects.extras.forEach((id) => {
+    const effect = getEffect(id);
+    if (effect?.layer !== layer) return;
+    ctx.save();
+    effect.draw(ctx, effectContext);
+    ctx.restore();
+  });
+  drawExtras('under');
+
+  if (textOutline.enabled) {
+    ctx.strokeStyle = toCanvasColor(textOutline.color);
+    strokeLines();
+  }
+
+  ctx.fillStyle = createTextFill(ctx, fill, scheme.text, textBlockBounds(ctx, layout, typography));
+  fillLines();
+  drawExtras('over');
+
+  // The border is centred on the clipped edge, so only its inner half shows
+  if (border.enabled) {
+    ctx.strokeStyle = toCanvasColor(border.color);
+    ctx.lineWidth = border.width * 2;
+    ctx.lineCap = border.style === 'dotted' ? 'round' : 'butt';
+    ctx.setLineDash(borderDash(border.style, border.width * 2));
+    ctx.stroke(shapePath);
+  }
+
+  ctx.restore();
+  return layout;
+}
+
+export interface RenderOptions {
+  /**
+   * Resolution multiplier. The layout is computed at the spec's size and drawn
+   * scaled, so a scaled-down preview looks exactly like the full-size output.
+   */
+  scale?: number;
+}
+
+/**
+ * Sizes `canvas` to the spec and draws the text image onto it. Works with both
+ * DOM canvases and `OffscreenCanvas`, so it can run inside a worker.
+ */
+export function renderTextImage(spec: RenderSpec, canvas: RenderCanvas, { scale = 1 }: RenderOptions = {}): TextLayout {
+  canvas.width = Math.max(1, Math.round(spec.width * scale));
+  canvas.height = Math.max(1, Math.round(spec.height * scale));
+
+  const ctx = canvas.getContext('2d') as RenderContext | null;
+  if (!ctx) {
+    throw new Error('2D canvas context is not available');
+  }
+
+  ctx.setTransform(canvas.width / spec.width, 0, 0, canvas.height / spec.height, 0, 0);
+  const layout = drawTextImage(ctx, spec);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return layout;
+}
@@ -0,0 +1,35 @@
+import { checkContrast } from "./contrast";
+import { fontFaceFor, loadFont } from "./fonts";
+import "./packs";
+import { JPEG_QUALITY, renderTextImage } from "./render";
+import type { RenderContext } from "./types";
+import type { RenderWorkerRequest, RenderWorkerResponse } from "./worker-client";
+
+// Workers have their own font set; document.fonts is not visible here
+const workerFonts = (self as unknown as { fonts: FontFaceSet }).fonts;
+
+self.onmessage = async (event: MessageEvent<RenderWorkerRequest>) => {
+  const { id, spec, fontFaces, previewScale } = event.data;
+
+  let response: RenderWorkerResponse;
+  let transfer: Transferable[] = [];
+  try {
+    await loadFont(workerFonts, spec.fontFamily, fontFaces, fontFaceFor(spec.typography));
+    const canvas = new OffscreenCanvas(spec.width, spec.height);
+    if (previewScale === undefined) {
+      renderTextImage(spec, canvas);
+      const blob = await canvas.convertToBlob({ type: `image/${spec.format}`, quality: JPEG_QUALITY });
+      response = { id, blob };
+    } else {
+      const layout = renderTextImage(spec, canvas, { scale: previewScale });
+      const contrast = checkContrast(canvas.getContext('2d') as RenderContext, spec, layout);
+      const image = canvas.transferToImageBitmap();
+      response = { id, preview: { image, contrast } };
+      transfer = [image];
+    }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response, { transfer });
+};
@@ -0,0 +1,199 @@
+import {
+  circlePoints,
+  cubicBezierPoints,
+  largestInscribedRect,
+  regularPolygonPoints,
+  roundedRectPoints,
+  polygonArea,
+  starPoints,
+  type Point,
+} from "./geometry";
+import { getShape, registerShape } from "./registry";
+import { fitPathSegments, parsePathData, pathPolygons, segmentsToPath2D } from "./svg-path";
+import type { ImageShape, ShapeParams, TextArea } from "./types";
+
+export interface ShapeConfig {
+  /** The shape's exact outline, used to clip the image and to stroke its border. */
+  path: (width: number, height: number, params: ShapeParams) => Path2D;
+  /**
+   * Polygon approximating the path, used for per-line text layout and to
+   * derive the rectangular text box for text that cannot follow the outline.
+   */
+  outline: (width: number, height: number, params: ShapeParams) => Point[];
+}
+
+export function polygonPath(points: Point[]): Path2D {
+  const path = new Path2D();
+  points.forEach(({ x, y }, i) => {
+    if (i === 0) path.moveTo(x, y);
+    else path.lineTo(x, y);
+  });
+  path.closePath();
+  return path;
+}
+
+/** A shape whose outline is exact, so the path simply traces it. */
+export function polygonShape(outline: ShapeConfig['outline']): ShapeConfig {
+  return {
+    path: (width, height, params) => polygonPath(outline(width, height, params)),
+    outline,
+  };
+}
+
+const rectanglePoints = (width: number, height: number): Point[] => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+const rhombusPoints = (width: number, height: number): Point[] => [
+  { x: width / 2, y: 0 },
+  { x: width, y: height / 2 },
+  { x: width / 2, y: height },
+  { x: 0, y: height / 2 },
+];
+
+const trianglePoints = (width: number, height: number): Point[] => [
+  { x: width / 2, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+/** Corner radii in pixels; neighbouring corners never overlap. */
+const cornerRadiiPx = (width: number, height: number, { cornerRadii }: ShapeParams) =>
+  cornerRadii.map((radius) => Math.min(radius, 0.5) * Math.min(width, height));
+
+// Heart outline on a 100-unit grid around the centre: a start point followed by
+// the control points and end point of each cubic Bézier segment
+const HEART_START: Point = { x: 0, y: 15 };
+const HEART_CURVES: [Point, Point, Point][] = [
+  [{ x: 0, y: 12 }, { x: -8, y: -5 }, { x: -25, y: -5 }],
+  [{ x: -35, y: -5 }, { x: -35, y: 5 }, { x: -35, y: 5 }],
+  [{ x: -35, y: 15 }, { x: -25, y: 25 }, { x: 0, y: 40 }],
+  [{ x: 25, y: 25 }, { x: 35, y: 15 }, { x: 35, y: 5 }],
+  [{ x: 35, y: 5 }, { x: 35, y: -5 }, { x: 25, y: -5 }],
+  [{ x: 8, y: -5 }, { x: 0, y: 12 }, { x: 0, y: 15 }],
+];
+
+const heartTransform = (width: number, height: number) => {
+  const scale = (Math.min(width, height) * 0.8) / 100;
+  return ({ x, y }: Point): Point => ({ x: width / 2 + x * scale, y: height / 2 + y * scale });
+};
+
+/**
+ * The custom path scaled to fit, or null while it is missing, malformed or
+ * encloses no area, like a single line.
+ */
+const fittedCustomPath = (width: number, height: number, { customPath }: ShapeParams) => {
+  const segments = parsePathData(customPath);
+  return segments && pathPolygons(segments).length ? fitPathSegments(segments, width, height) : null;
+};
+
+/**
+ * The text-safe area of a shape: the largest rectangle inside its outline,
+ * relative to the centre of the `width` × `height` area.
+ */
+export function inscribedTextArea(outline: Point[], width: number, height: number): TextArea {
+  const rect = largestInscribedRect(outline);
+  return {
+    width: rect.width,
+    height: rect.height,
+    offsetX: rect.left + rect.width / 2 - width / 2,
+    offsetY: rect.top + rect.height / 2 - height / 2,
+  };
+}
+
+registerShape('rectangle', { label: 'Rectangle', category: 'Basic', ...polygonShape(rectanglePoints) });
+registerShape('rounded', {
+  label: 'Rounded Rectangle',
+  category: 'Basic',
+  params: ['cornerRadii'],
+  path: (width, height, params) => {
+    const path = new Path2D();
+    path.roundRect(0, 0, width, height, cornerRadiiPx(width, height, params));
+    return path;
+  },
+  outline: (width, height, params) => roundedRectPoints(width, height, cornerRadiiPx(width, height, params))
+});
+registerShape('circle', {
+  label: 'Circle',
+  category: 'Basic',
+  path: (width, height) => {
+    const radius = Math.min(width, height) / 2;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const path = new Path2D();
+    path.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+    return path;
+  },
+  outline: (width, height) => circlePoints(width / 2, height / 2, Math.min(width, height) / 2)
+});
+registerShape('rhombus', { label: 'Rhombus', category: 'Basic', ...polygonShape(rhombusPoints) });
+registerShape('triangle', { label: 'Triangle', category: 'Basic', ...polygonShape(trianglePoints) });
+registerShape('polygon', {
+  label: 'Polygon',
+  category: 'Basic',
+  params: ['sides', 'rotation'],
+  ...polygonShape((width, height, { sides, rotation }) =>
+    regularPolygonPoints(width / 2, height / 2, Math.min(width, height) / 2, sides, rotation)),
+});
+registerShape('star', {
+  label: 'Star',
+  category: 'Basic',
+  params: ['points', 'innerRatio', 'rotation'],
+  ...polygonShape((width, height, { points, innerRatio, rotation }) =>
+    starPoints(width / 2, height / 2, Math.min(width, height) / 2, points, innerRatio, rotation)),
+});
+registerShape('heart', {
+  label: 'Heart',
+  category: 'Basic',
+  path: (width, height) => {
+    const transform = heartTransform(width, height);
+    const start = transform(HEART_START);
+
+    const path = new Path2D();
+    path.moveTo(start.x, start.y);
+    HEART_CURVES.forEach((curve) => {
+      const [c1, c2, end] = curve.map(transform);
+      path.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+    });
+    path.closePath();
+    return path;
+  },
+  outline: (width, height) => {
+    const transform = heartTransform(width, height);
+    let previous = transform(HEART_START);
+    const points: Point[] = [];
+    HEART_CURVES.forEach((curve) => {
+      const [c1, c2, end] = curve.map(transform);
+      points.push(...cubicBezierPoints(previous, c1, c2, end));
+      previous = end;
+    });
+    return points;
+  }
+});
+// Text follows only the largest subpath; holes and other islands are still clipped
+registerShape('custom', {
+  label: 'Custom Path',
+  category: 'Custom',
+  icon: 'M2 13C4 3 8 3 8 8S12 13 14 3',
+  params: ['customPath'],
+  path: (width, height, params) => {
+    const segments = fittedCustomPath(width, height, params);
+    return segments ? segmentsToPath2D(segments) : polygonPath(rectanglePoints(width, height));
+  },
+  outline: (width, height, params) => {
+    const segments = fittedCustomPath(width, height, params);
+    if (!segments) return rectanglePoints(width, height);
+    return pathPolygons(segments).reduce((largest, polygon) =>
+      polygonArea(polygon) > polygonArea(largest) ? polygon : largest);
+  }
+});
+
+/** The registered shape `id`; throws for shapes whose module was never imported. */
+export function resolveShape(id: ImageShape): ShapeConfig {
+  const shape = getShape(id);
+  if (!shape) throw new Error(`Unknown shape "${id}"`);
+  return shape;
+}
@@ -0,0 +1,659 @@
+import { z } from "zod";
+import { DEFAULT_GRADIENT, resolveScheme, type ColorSchemeConfig, type CustomColorScheme } from "./color-schemes";
+import { INTERPOLATION_SPACES, isValidColor } from "./colors";
+import { DEFAULT_FONT_FAMILY } from "./fonts";
+import { GRADIENT_TYPES, evenPositions } from "./gradients";
+import { LINE_HEIGHT } from "./layout";
+import { getEffect, getScheme, getShape } from "./registry";
+import { MAX_PATH_DATA_LENGTH, isValidPathData } from "./svg-path";
+import {
+  BORDER_STYLES,
+  CALLIGRAM_MODES,
+  IMAGE_FORMATS,
+  IMAGE_SIZES,
+  OUTSIDE_BACKGROUNDS,
+  TEXT_ALIGNS,
+  TEXT_FILL_TYPES,
+  TEXT_PATH_MODES,
+  TEXT_PATH_SIDES,
+  TEXT_PATTERNS,
+  VERTICAL_ALIGNS,
+  type Calligram,
+  type ColorScheme,
+  type CustomSize,
+  type FontSizing,
+  type ImageFormat,
+  type ImageShape,
+  type ImageSize,
+  type OutsideBackground,
+  type RenderSpec,
+  type ShapeParams,
+  type ShapeStyle,
+  type TextEffects,
+  type TextPath,
+  type Typography,
+} from "./types";
+
+export const TEXT_ART_SPEC_VERSION = 18 as const;
+
+export const MAX_TEXT_LENGTH = 128;
+export const MIN_DIMENSION = 100;
+export const MAX_DIMENSION = 2048;
+export const MIN_FONT_SIZE = 4;
+export const MAX_FONT_SIZE = 512;
+export const MAX_FONT_FAMILY_LENGTH = 64;
+export const MAX_SCHEME_NAME_LENGTH = 40;
+export const MAX_BACKGROUND_STOPS = 8;
+export const MAX_OUTLINE_WIDTH = 0.3;
+export const MAX_EFFECT_BLUR = 64;
+export const MAX_SHADOW_OFFSET = 64;
+export const MAX_BORDER_WIDTH = 64;
+export const MIN_POLYGON_SIDES = 3;
+export const MAX_POLYGON_SIDES = 12;
+export const MIN_STAR_POINTS = 3;
+export const MAX_STAR_POINTS = 24;
+export const MIN_STAR_INNER_RATIO = 0.1;
+export const MAX_STAR_INNER_RATIO = 0.95;
+export const MAX_CORNER_RADIUS = 0.5;
+export const MIN_TAIL_SIZE = 0.1;
+export const MAX_TAIL_SIZE = 0.4;
+export const MIN_BURST_RAYS = 8;
+export const MAX_BURST_RAYS = 48;
+export const MAX_BLOB_SEED = 999999;
+export const MAX_EXTRA_EFFECTS = 8;
+export const MIN_CALLIGRAM_ROWS = 3;
+export const MAX_CALLIGRAM_ROWS = 60;
+export const MIN_ARC_SWEEP = 20;
+export const MAX_ARC_SWEEP = 360;
+export const MIN_PATTERN_SIZE = 4;
+export const MAX_PATTERN_SIZE = 128;
+export const MIN_LINE_HEIGHT = 0.5;
+export const MAX_LINE_HEIGHT = 3;
+export const MIN_LETTER_SPACING = -0.2;
+export const MAX_LETTER_SPACING = 1;
+export const MIN_WORD_SPACING = -0.5;
+export const MAX_WORD_SPACING = 2;
+
+export const DEFAULT_FONT_SIZING: FontSizing = { mode: 'auto', min: 8, max: 256 };
+
+export const DEFAULT_TYPOGRAPHY: Typography = {
+  weight: 700,
+  italic: false,
+  align: 'center',
+  verticalAlign: 'middle',
+  lineHeight: LINE_HEIGHT,
+  letterSpacing: 0,
+  wordSpacing: 0,
+};
+
+/**
+ * The old fixed shadow, no glow or outline, the scheme's text colour as the
+ * fill and no registered effects.
+ */
+export const DEFAULT_TEXT_EFFECTS: TextEffects = {
+  shadow: { enabled: true, blur: 4, offsetX: 2, offsetY: 2 },
+  glow: { enabled: false, color: '#ffffff', blur: 12 },
+  outline: { enabled: false, color: '#000000', width: 0.05 },
+  fill: {
+    type: 'solid',
+    colors: ['#fbd38d', '#f56565'],
+    gradient: { ...DEFAULT_GRADIENT, angle: 180 },
+    pattern: 'stripes',
+    patternColor: '#00000040',
+    patternSize: 12,
+  },
+  extras: [],
+};
+
+/**
+ * A hexagon, a five-point star, slightly rounded corners, a bubble tail just
+ * left of centre and a 20-ray burst; no custom path yet.
+ */
+export const DEFAULT_SHAPE_PARAMS: ShapeParams = {
+  sides: 6,
+  points: 5,
+  innerRatio: 0.4,
+  cornerRadii: [0.0625, 0.0625, 0.0625, 0.0625],
+  rotation: 0,
+  tailPosition: 0.3,
+  tailSize: 0.2,
+  rays: 20,
+  seed: 1,
+  customPath: '',
+};
+
+/** A centred text block, as before calligrams. */
+export const DEFAULT_CALLIGRAM: Calligram = { mode: 'off', rows: 12, removeBackground: false };
+
+/** Straight lines, as before text could follow a path. */
+export const DEFAULT_TEXT_PATH: TextPath = { mode: 'off', side: 'outside', startOffset: 0, sweep: 120, path: '' };
+
+/** No border and no drop shadow, i.e. the shape as it was always drawn. */
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  border: { enabled: false, color: '#ffffff', width: 4, style: 'solid' },
+  shadow: { enabled: false, color: '#00000080', blur: 16, offsetX: 0, offsetY: 8 },
+};
+
+export const DEFAULT_OUTSIDE_BACKGROUND: OutsideBackground = { type: 'transparent', color: '#ffffff' };
+export const DEFAULT_MATTE_COLOR = '#ffffff';
+
+const dimensionSchema = z
+  .number()
+  .int()
+  .min(MIN_DIMENSION, `Must be at least ${MIN_DIMENSION} px`)
+  .max(MAX_DIMENSION, `Must be at most ${MAX_DIMENSION} px`);
+
+const fontSizeSchema = z
+  .number()
+  .min(MIN_FONT_SIZE, `Must be at least ${MIN_FONT_SIZE} px`)
+  .max(MAX_FONT_SIZE, `Must be at most ${MAX_FONT_SIZE} px`);
+
+const fontSizingSchema = z
+  .discriminatedUnion('mode', [
+    z.object({ mode: z.literal('auto'), min: fontSizeSchema, max: fontSizeSchema }).strict(),
+    z.object({ mode: z.literal('fixed'), size: fontSizeSchema }).strict(),
+  ])
+  .refine((sizing) => sizing.mode !== 'auto' || sizing.min <= sizing.max, {
+    message: 'Minimum font size must not exceed the maximum',
+    path: ['max'],
+  });
+
+// Family names end up inside a CSS font shorthand, so anything that could
+// break out of the quoted name is rejected
+const fontFamilySchema = z
+  .string()
+  .trim()
+  .min(1, 'Must not be empty')
+  .max(MAX_FONT_FAMILY_LENGTH, `Must be at most ${MAX_FONT_FAMILY_LENGTH} characters`)
+  .regex(/^[^"'\\;{}<>]+$/, 'Must not contain quotes, backslashes, semicolons, braces or angle brackets');
+
+const typographySchema = z
+  .object({
+    weight: z.number().int().min(100).max(900).multipleOf(100, 'Must be a multiple of 100'),
+    italic: z.boolean(),
+    align: z.enum(TEXT_ALIGNS),
+    verticalAlign: z.enum(VERTICAL_ALIGNS),
+    lineHeight: z.number().min(MIN_LINE_HEIGHT).max(MAX_LINE_HEIGHT),
+    letterSpacing: z.number().min(MIN_LETTER_SPACING).max(MAX_LETTER_SPACING),
+    wordSpacing: z.number().min(MIN_WORD_SPACING).max(MAX_WORD_SPACING),
+  })
+  .strict();
+
+const colorSchema = z
+  .string()
+  .trim()
+  .refine(isValidColor, 'Must be a hex, rgb(), hsl() or oklch() color');
+
+const gradientSchema = z
+  .object({
+    type: z.enum(GRADIENT_TYPES),
+    angle: z.number().min(0).max(360),
+    positions: z.array(z.number().min(0).max(1)),
+    interpolation: z.enum(INTERPOLATION_SPACES),
+  })
+  .strict();
+
+export const customColorSchemeSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Must not be empty')
+      .max(MAX_SCHEME_NAME_LENGTH, `Must be at most ${MAX_SCHEME_NAME_LENGTH} characters`),
+    background: z
+      .array(colorSchema)
+      .min(1, 'Needs at least one color')
+      .max(MAX_BACKGROUND_STOPS, `Must have at most ${MAX_BACKGROUND_STOPS} colors`),
+    gradient: gradientSchema,
+    text: colorSchema,
+    shadow: colorSchema,
+  })
+  .strict()
+  .refine((scheme) => scheme.gradient.positions.length === scheme.background.length, {
+    message: 'Must have one position per background color',
+    path: ['gradient', 'positions'],
+  }) as z.ZodType<CustomColorScheme, z.ZodTypeDef, unknown>;
+
+const blurSchema = z.number().min(0).max(MAX_EFFECT_BLUR, `Must be at most ${MAX_EFFECT_BLUR} px`);
+const offsetSchema = z.number().min(-MAX_SHADOW_OFFSET).max(MAX_SHADOW_OFFSET);
+
+const textEffectsSchema = z
+  .object({
+    shadow: z
+      .object({
+        enabled: z.boolean(),
+        color: colorSchema.optional(),
+        blur: blurSchema,
+        offsetX: offsetSchema,
+        offsetY: offsetSchema,
+      })
+      .strict(),
+    glow: z.object({ enabled: z.boolean(), color: colorSchema, blur: blurSchema }).strict(),
+    outline: z
+      .object({ enabled: z.boolean(), color: colorSchema, width: z.number().positive().max(MAX_OUTLINE_WIDTH) })
+      .strict(),
+    fill: z
+      .object({
+        type: z.enum(TEXT_FILL_TYPES),
+        colors: z
+          .array(colorSchema)
+          .min(1, 'Needs at least one color')
+          .max(MAX_BACKGROUND_STOPS, `Must have at most ${MAX_BACKGROUND_STOPS} colors`),
+        gradient: gradientSchema,
+        pattern: z.enum(TEXT_PATTERNS),
+        patternColor: colorSchema,
+        patternSize: z.number().int().min(MIN_PATTERN_SIZE).max(MAX_PATTERN_SIZE),
+      })
+      .strict()
+      .refine((fill) => fill.gradient.positions.length === fill.colors.length, {
+        message: 'Must have one position per color',
+        path: ['gradient', 'positions'],
+      }),
+    extras: z
+      .array(z.string().refine((id) => getEffect(id) !== undefined, (id) => ({ message: `Unknown effect "${id}"` })))
+      .max(MAX_EXTRA_EFFECTS, `Must have at most ${MAX_EXTRA_EFFECTS} effects`)
+      .refine((ids) => new Set(ids).size === ids.length, 'Must not list an effect twice'),
+  })
+  .strict();
+
+const pathDataSchema = z
+  .string()
+  .trim()
+  .max(MAX_PATH_DATA_LENGTH, `Must be at most ${MAX_PATH_DATA_LENGTH} characters`)
+  .refine((d) => d === '' || isValidPathData(d), 'Must be valid SVG path data');
+
+const shapeParamsSchema = z
+  .object({
+    sides: z.number().int().min(MIN_POLYGON_SIDES).max(MAX_POLYGON_SIDES),
+    points: z.number().int().min(MIN_STAR_POINTS).max(MAX_STAR_POINTS),
+    innerRatio: z.number().min(MIN_STAR_INNER_RATIO).max(MAX_STAR_INNER_RATIO),
+    cornerRadii: z.array(z.number().min(0).max(MAX_CORNER_RADIUS)).length(4, 'Must have one radius per corner'),
+    rotation: z.number().min(0).max(360),
+    tailPosition: z.number().min(0).max(1),
+    tailSize: z.number().min(MIN_TAIL_SIZE).max(MAX_TAIL_SIZE),
+    rays: z.number().int().min(MIN_BURST_RAYS).max(MAX_BURST_RAYS),
+    seed: z.number().int().min(0).max(MAX_BLOB_SEED),
+    customPath: pathDataSchema,
+  })
+  .strict();
+
+const shapeStyleSchema = z
+  .object({
+    border: z
+      .object({
+        enabled: z.boolean(),
+        color: colorSchema,
+        width: z.number().positive().max(MAX_BORDER_WIDTH, `Must be at most ${MAX_BORDER_WIDTH} px`),
+        style: z.enum(BORDER_STYLES),
+      })
+      .strict(),
+    shadow: z
+      .object({
+        enabled: z.boolean(),
+        color: colorSchema,
+        blur: blurSchema,
+        offsetX: offsetSchema,
+        offsetY: offsetSchema,
+      })
+      .strict(),
+  })
+  .strict();
+
+const calligramSchema = z
+  .object({
+    mode: z.enum(CALLIGRAM_MODES),
+    rows: z.number().int().min(MIN_CALLIGRAM_ROWS).max(MAX_CALLIGRAM_ROWS),
+    removeBackground: z.boolean(),
+  })
+  .strict();
+
+const textPathSchema = z
+  .object({
+    mode: z.enum(TEXT_PATH_MODES),
+    side: z.enum(TEXT_PATH_SIDES),
+    startOffset: z.number().min(-0.5).max(0.5),
+    sweep: z.number().min(MIN_ARC_SWEEP).max(MAX_ARC_SWEEP),
+    path: pathDataSchema,
+  })
+  .strict();
+
+/** A saved design. Serialized as JSON in `.textart.json` files. */
+export interface TextArtSpec {
+  version: typeof TEXT_ART_SPEC_VERSION;
+  text: string;
+  format: ImageFormat;
+  size: ImageSize;
+  /** Only present (and required) when `size` is `'custom'`. */
+  customSize?: CustomSize;
+  colorScheme: ColorScheme;
+  /** Only present (and required) when `colorScheme` is `'custom'`. */
+  customColorScheme?: CustomColorScheme;
+  shape: ImageShape;
+  /** Sides, points, corner radii and rotation of the parametric shapes, and the custom path. */
+  shapeParams: ShapeParams;
+  /** Border and drop shadow of the shape. */
+  shapeStyle: ShapeStyle;
+  outsideBackground: OutsideBackground;
+  /** Background JPEG output is flattened onto, as JPEG cannot be transparent. */
+  matteColor: string;
+  /** Text filling the whole shape instead of a centred block. */
+  calligram: Calligram;
+  /** Text set along a curve or the shape's edge; takes the place of the calligram. */
+  textPath: TextPath;
+  fontSize: FontSizing;
+  /**
+   * CSS family name. Bundled fonts always resolve; uploaded fonts only exist in
+   * the session that uploaded them, so elsewhere the text falls back to system-ui.
+   */
+  fontFamily: string;
+  typography: Typography;
+  /** Shadow, glow, outline and fill of the text, drawn in that order. */
+  effects: TextEffects;
+  /** Add hyphens where a word too long for its line has to be split. */
+  hyphenate: boolean;
+}
+
+// zod only infers required keys under strictNullChecks, which this project
+// leaves off, so the schema is typed against the interface above instead.
+export const textArtSpecSchema = z
+  .object({
+    version: z.literal(TEXT_ART_SPEC_VERSION),
+    text: z.string().max(MAX_TEXT_LENGTH, `Must be at most ${MAX_TEXT_LENGTH} characters`),
+    format: z.enum(IMAGE_FORMATS),
+    size: z.enum(IMAGE_SIZES),
+    customSize: z.object({ width: dimensionSchema, height: dimensionSchema }).strict().optional(),
+    colorScheme: z
+      .string()
+      .refine((id) => id === 'custom' || getScheme(id) !== undefined, (id) => ({ message: `Unknown color scheme "${id}"` })),
+    customColorScheme: customColorSchemeSchema.optional(),
+    shape: z.string().refine((id) => getShape(id) !== undefined, (id) => ({ message: `Unknown shape "${id}"` })),
+    shapeParams: shapeParamsSchema,
+    shapeStyle: shapeStyleSchema,
+    outsideBackground: z.object({ type: z.enum(OUTSIDE_BACKGROUNDS), color: colorSchema }).strict(),
+    matteColor: colorSchema,
+    calligram: calligramSchema,
+    textPath: textPathSchema,
+    fontSize: fontSizingSchema,
+    fontFamily: fontFamilySchema,
+    typography: typographySchema,
+    effects: textEffectsSchema,
+    hyphenate: z.boolean(),
+  })
+  .strict()
+  .superRefine((spec, ctx) => {
+    if (spec.size === 'custom' && !spec.customSize) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['customSize'],
+        message: 'Required when size is "custom"',
+      });
+    }
+    if (spec.colorScheme === 'custom' && !spec.customColorScheme) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['customColorScheme'],
+        message: 'Required when colorScheme is "custom"',
+      });
+    }
+    if (spec.shape === 'custom' && !spec.shapeParams.customPath) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['shapeParams', 'customPath'],
+        message: 'Required when shape is "custom"',
+      });
+    }
+    if (spec.textPath.mode === 'custom' && !spec.textPath.path) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['textPath', 'path'],
+        message: 'Required when the text path mode is "custom"',
+      });
+    }
+  }) as z.ZodType<TextArtSpec, z.ZodTypeDef, unknown>;
+
+export const DEFAULT_TEXT_ART_SPEC: TextArtSpec = {
+  version: TEXT_ART_SPEC_VERSION,
+  text: '',
+  format: 'png',
+  size: '256',
+  colorScheme: 'purple',
+  shape: 'rounded',
+  shapeParams: DEFAULT_SHAPE_PARAMS,
+  shapeStyle: DEFAULT_SHAPE_STYLE,
+  outsideBackground: DEFAULT_OUTSIDE_BACKGROUND,
+  matteColor: DEFAULT_MATTE_COLOR,
+  calligram: DEFAULT_CALLIGRAM,
+  textPath: DEFAULT_TEXT_PATH,
+  fontSize: DEFAULT_FONT_SIZING,
+  fontFamily: DEFAULT_FONT_FAMILY,
+  typography: DEFAULT_TYPOGRAPHY,
+  effects: DEFAULT_TEXT_EFFECTS,
+  hyphenate: false,
+};
+
+export class TextArtSpecError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid design: ${issues.join('; ')}`);
+    this.name = 'TextArtSpecError';
+    this.issues = issues;
+  }
+}
+
+type SpecMigration = (doc: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades older documents one version at a time, keyed by the version each
+ * migration upgrades from. Bump `TEXT_ART_SPEC_VERSION` and add an entry here
+ * whenever a field is added, renamed or reinterpreted.
+ */
+const MIGRATIONS: Record<number, SpecMigration> = {
+  // v2: font size became configurable; v1 designs switch to auto-fit
+  1: (doc) => ({ ...doc, fontSize: DEFAULT_FONT_SIZING }),
+  // v3: optional hyphenation when overlong words are split
+  2: (doc) => ({ ...doc, hyphenate: false }),
+  // v4: selectable font family; earlier designs were drawn in Inter
+  3: (doc) => ({ ...doc, fontFamily: DEFAULT_FONT_FAMILY }),
+  // v5: typography controls; the defaults match the old bold, centred text
+  4: (doc) => ({ ...doc, typography: DEFAULT_TYPOGRAPHY }),
+  // v6: user-made color schemes; existing designs keep their built-in scheme
+  5: (doc) => doc,
+  // v7: gradient type, angle and stop positions; custom schemes keep their
+  // evenly spread diagonal
+  6: (doc) => {
+    if (!isRecord(doc.customColorScheme)) return doc;
+    return { ...doc, customColorScheme: upgradeCustomColorScheme(doc.customColorScheme) };
+  },
+  // v8: optional OKLab/OKLCH blending; existing gradients keep blending in sRGB
+  7: (doc) => {
+    if (!isRecord(doc.customColorScheme)) return doc;
+    return { ...doc, customColorScheme: upgradeCustomColorScheme(doc.customColorScheme) };
+  },
+  // v9: optional text outline; absent means none
+  8: (doc) => doc,
+  // v10: text effects; the outline moves into them and the rest keeps the
+  // fixed shadow and plain fill designs were drawn with
+  9: ({ textOutline, ...doc }) => ({
+    ...doc,
+    effects: {
+      ...DEFAULT_TEXT_EFFECTS,
+      ...(isRecord(textOutline) && { outline: { enabled: true, ...textOutline } }),
+    },
+  }),
+  // v11: shape border and drop shadow, both off as before
+  10: (doc) => ({ ...doc, shapeStyle: DEFAULT_SHAPE_STYLE }),
+  // v12: outside-shape background and JPEG matte. The outside stays
+  // transparent; JPEGs, which used to come out black there, get a white matte
+  11: (doc) => ({ ...doc, outsideBackground: DEFAULT_OUTSIDE_BACKGROUND, matteColor: DEFAULT_MATTE_COLOR }),
+  // v13: parametric shapes. The hexagon becomes a six-sided polygon turned to
+  // keep its flat top, and rounded corners keep their fixed 16 px radius
+  12: (doc) => {
+    const radius = Math.min(MAX_CORNER_RADIUS, 16 / shorterSide(doc));
+    const isHexagon = doc.shape === 'hexagon';
+    return {
+      ...doc,
+      shape: isHexagon ? 'polygon' : doc.shape,
+      shapeParams: {
+        ...DEFAULT_SHAPE_PARAMS,
+        cornerRadii: [radius, radius, radius, radius],
+        rotation: isHexagon ? 30 : 0,
+      },
+    };
+  },
+  // v14: custom SVG path shapes
+  13: (doc) => ({
+    ...doc,
+    shapeParams: { ...(isRecord(doc.shapeParams) ? doc.shapeParams : DEFAULT_SHAPE_PARAMS), customPath: '' },
+  }),
+  // v15: bubble, burst and blob shapes
+  14: (doc) => {
+    const { tailPosition, tailSize, rays, seed } = DEFAULT_SHAPE_PARAMS;
+    const params = isRecord(doc.shapeParams) ? doc.shapeParams : DEFAULT_SHAPE_PARAMS;
+    return { ...doc, shapeParams: { ...params, tailPosition, tailSize, rays, seed } };
+  },
+  // v16: registered effects, none of which older designs used
+  15: (doc) => ({ ...doc, effects: { ...(isRecord(doc.effects) ? doc.effects : DEFAULT_TEXT_EFFECTS), extras: [] } }),
+  // v17: calligram mode, off
+  16: (doc) => ({ ...doc, calligram: DEFAULT_CALLIGRAM }),
+  // v18: text on a path, off
+  17: (doc) => ({ ...doc, textPath: DEFAULT_TEXT_PATH }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** The shorter image side of a not yet validated document, falling back to the default size. */
+const shorterSide = (doc: Record<string, unknown>) => {
+  const custom = doc.customSize;
+  const side = doc.size === 'custom' && isRecord(custom)
+    ? Math.min(Number(custom.width), Number(custom.height))
+    : Number(doc.size);
+  return side > 0 ? side : Number(DEFAULT_TEXT_ART_SPEC.size);
+};
+
+/**
+ * Fills in gradient settings a scheme saved by an older version lacks, with
+ * the values it was drawn with: an evenly spread diagonal blended in sRGB.
+ */
+export function upgradeCustomColorScheme(scheme: Record<string, unknown>): Record<string, unknown> {
+  if (!Array.isArray(scheme.background)) return scheme;
+  if (!isRecord(scheme.gradient)) {
+    return { ...scheme, gradient: { ...DEFAULT_GRADIENT, positions: evenPositions(scheme.background.length) } };
+  }
+  if (!('interpolation' in scheme.gradient)) {
+    return { ...scheme, gradient: { ...scheme.gradient, interpolation: 'srgb' } };
+  }
+  return scheme;
+}
+
+function migrateTextArtSpec(input: unknown): unknown {
+  if (!isRecord(input)) {
+    throw new TextArtSpecError(['Expected a JSON object']);
+  }
+
+  let doc = input;
+  let version = doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new TextArtSpecError(['version: Expected a positive integer']);
+  }
+  if (version > TEXT_ART_SPEC_VERSION) {
+    throw new TextArtSpecError([
+      `version: Design was saved by a newer version (${version}); this app supports up to ${TEXT_ART_SPEC_VERSION}`,
+    ]);
+  }
+
+  while (version < TEXT_ART_SPEC_VERSION) {
+    const migrate = MIGRATIONS[version];
+    doc = { ...migrate(doc), version: version + 1 };
+    version += 1;
+  }
+
+  return doc;
+}
+
+const formatIssue = (issue: z.ZodIssue) =>
+  `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`;
+
+/** Migrates and validates an untrusted value. Throws `TextArtSpecError` on failure. */
+export function parseTextArtSpec(input: unknown): TextArtSpec {
+  const result = textArtSpecSchema.safeParse(migrateTextArtSpec(input));
+  if (!result.success) {
+    throw new TextArtSpecError(result.error.issues.map(formatIssue));
+  }
+  return result.data;
+}
+
+export function parseTextArtSpecJson(json: string): TextArtSpec {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch {
+    throw new TextArtSpecError(['File is not valid JSON']);
+  }
+  return parseTextArtSpec(input);
+}
+
+/** Parses a shared color scheme file. Throws `TextArtSpecError` on failure. */
+export function parseCustomColorSchemeJson(json: string): CustomColorScheme {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch {
+    throw new TextArtSpecError(['File is not valid JSON']);
+  }
+  const result = customColorSchemeSchema.safeParse(isRecord(input) ? upgradeCustomColorScheme(input) : input);
+  if (!result.success) {
+    throw new TextArtSpecError(result.error.issues.map(formatIssue));
+  }
+  return result.data;
+}
+
+export function serializeCustomColorScheme(scheme: CustomColorScheme): string {
+  return `${JSON.stringify(customColorSchemeSchema.parse(scheme), null, 2)}\n`;
+}
+
+/**
+ * Pretty-prints a spec with keys in schema order so saved files diff cleanly.
+ */
+export function serializeTextArtSpec(spec: TextArtSpec): string {
+  return `${JSON.stringify(parseTextArtSpec(spec), null, 2)}\n`;
+}
+
+export function resolveDimensions(spec: TextArtSpec): CustomSize {
+  if (spec.size === 'custom') {
+    return { width: spec.customSize.width, height: spec.customSize.height };
+  }
+  const side = Number(spec.size);
+  return { width: side, height: side };
+}
+
+export function resolveColorScheme(spec: TextArtSpec): ColorSchemeConfig {
+  if (spec.colorScheme === 'custom') {
+    const { background, gradient, text, shadow } = spec.customColorScheme;
+    return { background, gradient, text, shadow };
+  }
+  return resolveScheme(spec.colorScheme).scheme;
+}
+
+export function toRenderSpec(spec: TextArtSpec): RenderSpec {
+  return {
+    text: spec.text,
+    format: spec.format,
+    ...resolveDimensions(spec),
+    colorScheme: resolveColorScheme(spec),
+    shape: spec.shape,
+    shapeParams: spec.shapeParams,
+    shapeStyle: spec.shapeStyle,
+    outsideBackground: spec.outsideBackground,
+    matteColor: spec.matteColor,
+    // Text on a path replaces the text block, calligram or not
+    calligram: spec.textPath.mode === 'off' ? spec.calligram : DEFAULT_CALLIGRAM,
+    textPath: spec.textPath,
+    fontSize: spec.fontSize,
+    fontFamily: spec.fontFamily,
+    typography: spec.typography,
+    effects: spec.effects,
+    hyphenate: spec.hyphenate,
+  };
+}
@@ -0,0 +1,327 @@
+import { cubicBezierPoints, polygonArea, polygonBounds, type Point } from "./geometry";
+
+/** SVG path data reduced to absolute moves, lines and cubic curves. */
+export type PathSegment =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export const MAX_PATH_DATA_LENGTH = 20000;
+
+/** Number of arguments each command takes per repetition. */
+const ARITY: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i;
+
+/**
+ * Splits path data into commands and their numbers. Arc flags may be written
+ * without separators (`a1 1 0 110 10`), so they are read one digit at a time.
+ */
+const tokenize = (d: string): { command: string; args: number[] }[] | null => {
+  const commands: { command: string; args: number[] }[] = [];
+  let i = 0;
+  while (i < d.length) {
+    const char = d[i];
+    if (/[\s,]/.test(char)) {
+      i += 1;
+    } else if (/[a-z]/i.test(char)) {
+      if (!(char.toLowerCase() in ARITY)) return null;
+      commands.push({ command: char, args: [] });
+      i += 1;
+    } else {
+      const current = commands[commands.length - 1];
+      if (!current) return null;
+      const isFlag = current.command.toLowerCase() === 'a' && [3, 4].includes(current.args.length % 7);
+      if (isFlag) {
+        if (char !== '0' && char !== '1') return null;
+        current.args.push(Number(char));
+        i += 1;
+        continue;
+      }
+      const match = d.slice(i).match(NUMBER);
+      if (!match) return null;
+      current.args.push(parseFloat(match[0]));
+      i += match[0].length;
+    }
+  }
+  return commands;
+};
+
+/** Cubic curves approximating an SVG elliptical arc, per the SVG implementation notes. */
+const arcToCurves = (
+  x1: number,
+  y1: number,
+  [rxIn, ryIn, rotation, largeArc, sweep, x2, y2]: number[],
+): PathSegment[] => {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return [{ type: 'L', x: x2, y: y2 }];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (factor * rx * y1p) / ry;
+  const cyp = (-factor * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // At most a quarter turn per curve keeps the approximation tight
+  const count = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (theta: number, scale = 0, tangent = false): Point => {
+    const ex = tangent ? -Math.sin(theta) * scale : Math.cos(theta);
+    const ey = tangent ? Math.cos(theta) * scale : Math.sin(theta);
+    return { x: cos * rx * ex - sin * ry * ey, y: sin * rx * ex + cos * ry * ey };
+  };
+
+  return Array.from({ length: count }, (_, i) => {
+    const from = start + i * step;
+    const to = from + step;
+    const p1 = point(from);
+    const t1 = point(from, k, true);
+    const p2 = point(to);
+    const t2 = point(to, k, true);
+    return {
+      type: 'C' as const,
+      x1: cx + p1.x + t1.x,
+      y1: cy + p1.y + t1.y,
+      x2: cx + p2.x - t2.x,
+      y2: cy + p2.y - t2.y,
+      x: cx + p2.x,
+      y: cy + p2.y,
+    };
+  });
+};
+
+/**
+ * Parses the `d` attribute of an SVG path into absolute segments, with
+ * quadratic curves and arcs converted to cubic ones. Returns null when the
+ * data is malformed or draws nothing.
+ */
+export function parsePathData(d: string): PathSegment[] | null {
+  if (d.length > MAX_PATH_DATA_LENGTH) return null;
+  const commands = tokenize(d);
+  if (!commands?.length || commands[0].command.toLowerCase() !== 'm') return null;
+
+  const segments: PathSegment[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // The last control point, for the smooth S and T commands to reflect
+  let control: Point | null = null;
+  let quadratic: Point | null = null;
+
+  for (const { command, args } of commands) {
+    const lower = command.toLowerCase();
+    const relative = command !== command.toUpperCase();
+    const arity = ARITY[lower];
+    if (arity === 0 ? args.length > 0 : args.length === 0 || args.length % arity !== 0) return null;
+
+    if (lower === 'z') {
+      segments.push({ type: 'Z' });
+      x = startX;
+      y = startY;
+      control = null;
+      quadratic = null;
+      continue;
+    }
+
+    for (let i = 0; i < args.length; i += arity) {
+      const a = args.slice(i, i + arity);
+      const ox = relative ? x : 0;
+      const oy = relative ? y : 0;
+      let nextControl: Point | null = null;
+      let nextQuadratic: Point | null = null;
+
+      if (lower === 'm' && i === 0) {
+        x = ox + a[0];
+        y = oy + a[1];
+        startX = x;
+        startY = y;
+        segments.push({ type: 'M', x, y });
+      } else if (lower === 'm' || lower === 'l' || lower === 'h' || lower === 'v') {
+        // Extra pairs after a move are implicit lines
+        if (lower === 'h') x = ox + a[0];
+        else if (lower === 'v') y = oy + a[0];
+        else {
+          x = ox + a[0];
+          y = oy + a[1];
+        }
+        segments.push({ type: 'L', x, y });
+      } else if (lower === 'c' || lower === 's') {
+        const c1 = lower === 'c'
+          ? { x: ox + a[0], y: oy + a[1] }
+          : control ? { x: 2 * x - control.x, y: 2 * y - control.y } : { x, y };
+        const rest = lower === 'c' ? a.slice(2) : a;
+        const c2 = { x: ox + rest[0], y: oy + rest[1] };
+        x = ox + rest[2];
+        y = oy + rest[3];
+        segments.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x, y });
+        nextControl = c2;
+      } else if (lower === 'q' || lower === 't') {
+        const q = lower === 'q'
+          ? { x: ox + a[0], y: oy + a[1] }
+          : quadratic ? { x: 2 * x - quadratic.x, y: 2 * y - quadratic.y } : { x, y };
+        const end = lower === 'q' ? { x: ox + a[2], y: oy + a[3] } : { x: ox + a[0], y: oy + a[1] };
+        // A quadratic curve is a cubic one with its control points two thirds of the way along
+        segments.push({
+          type: 'C',
+          x1: x + ((q.x - x) * 2) / 3,
+          y1: y + ((q.y - y) * 2) / 3,
+          x2: end.x + ((q.x - end.x) * 2) / 3,
+          y2: end.y + ((q.y - end.y) * 2) / 3,
+          x: end.x,
+          y: end.y,
+        });
+        x = end.x;
+        y = end.y;
+        nextQuadratic = q;
+      } else if (lower === 'a') {
+        const end = [a[0], a[1], a[2], a[3], a[4], ox + a[5], oy + a[6]];
+        segments.push(...arcToCurves(x, y, end));
+        x = end[5];
+        y = end[6];
+      }
+
+      control = nextControl;
+      quadratic = nextQuadratic;
+    }
+  }
+
+  if (!segments.some((segment) => segment.type === 'L' || segment.type === 'C')) return null;
+  return segments.every((segment) => Object.values(segment).every((value) => typeof value !== 'number' || Number.isFinite(value)))
+    ? segments
+    : null;
+}
+
+export const isValidPathData = (d: string) => parsePathData(d) !== null;
+
+/** A subpath sampled into points, and whether it ends with a close command. */
+export interface Polyline {
+  points: Point[];
+  closed: boolean;
+}
+
+/** Each subpath of `segments` as a polyline, with curves sampled into points. */
+export function pathPolylines(segments: PathSegment[]): Polyline[] {
+  const polylines: Polyline[] = [];
+  let current: Point[] = [];
+  const finish = (closed: boolean) => {
+    if (current.length > 1) polylines.push({ points: current, closed });
+  };
+  segments.forEach((segment) => {
+    if (segment.type === 'M') {
+      finish(false);
+      current = [{ x: segment.x, y: segment.y }];
+    } else if (segment.type === 'L') {
+      current.push({ x: segment.x, y: segment.y });
+    } else if (segment.type === 'C') {
+      const start = current[current.length - 1];
+      current.push(...cubicBezierPoints(
+        start,
+        { x: segment.x1, y: segment.y1 },
+        { x: segment.x2, y: segment.y2 },
+        { x: segment.x, y: segment.y },
+      ));
+    } else if (current.length) {
+      // A subpath continues from its start point after closing
+      finish(true);
+      current = [current[0]];
+    }
+  });
+  finish(false);
+  return polylines;
+}
+
+/** Each subpath of `segments` that encloses an area, as a polygon. */
+export function pathPolygons(segments: PathSegment[]): Point[][] {
+  return pathPolylines(segments).map(({ points }) => points).filter((points) => points.length > 2 && polygonArea(points) > 0);
+}
+
+/**
+ * Scales and centres `segments` to fit a `width` × `height` area, keeping
+ * their aspect ratio, based on the bounds of the sampled outline.
+ */
+export function fitPathSegments(segments: PathSegment[], width: number, height: number): PathSegment[] {
+  const points = pathPolylines(segments).flatMap((polyline) => polyline.points);
+  if (!points.length) return segments;
+  const bounds = polygonBounds(points);
+  const scale = Math.min(width / (bounds.width || 1), height / (bounds.height || 1));
+  const offsetX = (width - bounds.width * scale) / 2 - bounds.left * scale;
+  const offsetY = (height - bounds.height * scale) / 2 - bounds.top * scale;
+  const mapX = (value: number) => offsetX + value * scale;
+  const mapY = (value: number) => offsetY + value * scale;
+
+  return segments.map((segment) => {
+    if (segment.type === 'Z') return segment;
+    if (segment.type === 'C') {
+      return {
+        type: 'C',
+        x1: mapX(segment.x1),
+        y1: mapY(segment.y1),
+        x2: mapX(segment.x2),
+        y2: mapY(segment.y2),
+        x: mapX(segment.x),
+        y: mapY(segment.y),
+      };
+    }
+    return { type: segment.type, x: mapX(segment.x), y: mapY(segment.y) };
+  });
+}
+
+export function segmentsToPath2D(segments: PathSegment[]): Path2D {
+  const path = new Path2D();
+  segments.forEach((segment) => {
+    if (segment.type === 'M') path.moveTo(segment.x, segment.y);
+    else if (segment.type === 'L') path.lineTo(segment.x, segment.y);
+    else if (segment.type === 'C') path.bezierCurveTo(segment.x1, segment.y1, segment.x2, segment.y2, segment.x, segment.y);
+    else path.closePath();
+  });
+  return path;
+}
+
+/**
+ * The path data of an SVG document holding a single `<path>`. Transforms and
+ * the viewBox are ignored, since the shape is scaled to fit the image anyway.
+ * Throws with a user-facing message otherwise.
+ */
+export function extractSvgPathData(svg: string): string {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  if (doc.querySelector('parsererror') || doc.documentElement.nodeName.toLowerCase() !== 'svg') {
+    throw new Error('File is not a valid SVG document');
+  }
+  const paths = doc.querySelectorAll('path');
+  if (paths.length !== 1) {
+    throw new Error(`Expected exactly one <path> element, found ${paths.length}`);
+  }
+  const d = paths[0].getAttribute('d')?.trim() ?? '';
+  if (!isValidPathData(d)) {
+    throw new Error('The path has no valid "d" attribute');
+  }
+  return d;
+}
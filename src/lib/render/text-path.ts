@@ -0,0 +1,237 @@
+import { insetPolygon, polygonBounds, signedPolygonArea, type Point } from "./geometry";
+import { applyFont, type LayoutLine, type LayoutOptions, type TextFrame, type TextLayout } from "./layout";
+import { splitGraphemes } from "./line-breaking";
+import { fitPathSegments, parsePathData, pathPolylines } from "./svg-path";
+import type { RenderContext, TextAlign, TextPath } from "./types";
+
+/**
+ * Largest automatic size for text on a path, relative to the shape's shorter
+ * side: the text runs along a rim or an arc, so it should not grow into a block.
+ */
+const MAX_PATH_FONT_SIZE = 0.15;
+
+/** A polyline measured along its length. */
+interface GuidePath {
+  points: Point[];
+  /** Distance from the first point to each point. */
+  distances: number[];
+  length: number;
+  closed: boolean;
+  /** Distance along the path the text is aligned from; closed paths wrap around. */
+  origin: number;
+}
+
+const measurePath = (points: Point[], closed: boolean, origin = 0): GuidePath => {
+  const all = closed ? [...points, points[0]] : points;
+  const distances = [0];
+  for (let i = 1; i < all.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(all[i].x - all[i - 1].x, all[i].y - all[i - 1].y));
+  }
+  return { points: all, distances, length: distances[distances.length - 1], closed, origin };
+};
+
+/** The point `distance` along `path` and the direction the path runs there. */
+const pointAlong = (path: GuidePath, distance: number) => {
+  const { points, distances, length } = path;
+  const at = path.closed ? ((distance % length) + length) % length : Math.min(length, Math.max(0, distance));
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (distances[middle] <= at) low = middle;
+    else high = middle;
+  }
+  const a = points[low];
+  const b = points[high];
+  const t = (at - distances[low]) / (distances[high] - distances[low] || 1);
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, angle: Math.atan2(b.y - a.y, b.x - a.x) };
+};
+
+/** Distance along a closed `path` of the point nearest to `target`. */
+const distanceTo = (path: GuidePath, target: Point) => {
+  let best = { gap: Infinity, distance: 0 };
+  for (let i = 0; i + 1 < path.points.length; i++) {
+    const a = path.points[i];
+    const b = path.points[i + 1];
+    const span = path.distances[i + 1] - path.distances[i];
+    const t = span
+      ? Math.min(1, Math.max(0, ((target.x - a.x) * (b.x - a.x) + (target.y - a.y) * (b.y - a.y)) / (span * span)))
+      : 0;
+    const gap = Math.hypot(a.x + (b.x - a.x) * t - target.x, a.y + (b.y - a.y) * t - target.y);
+    if (gap < best.gap) best = { gap, distance: path.distances[i] + span * t };
+  }
+  return best.distance;
+};
+
+/**
+ * The shape's edge, inset so the letters stay inside it, running clockwise
+ * for outside text and anticlockwise for inside text. Either way its middle
+ * is where the centre column meets it: the top for outside, the bottom for inside.
+ */
+const outlinePath = (frame: TextFrame, side: TextPath['side'], fontSize: number): GuidePath => {
+  const clockwise = signedPolygonArea(frame.outline) < 0 ? [...frame.outline].reverse() : frame.outline;
+  const inset = insetPolygon(clockwise, frame.padding / 2 + (side === 'outside' ? fontSize : 0));
+  const points = side === 'outside' ? inset : inset.reverse();
+  const path = measurePath(points, true);
+  const { top, height } = polygonBounds(points);
+  const anchor = distanceTo(path, { x: frame.centerX, y: side === 'outside' ? top : top + height });
+  return { ...path, origin: anchor - path.length / 2 };
+};
+
+/**
+ * A circular arc of `sweep` degrees, bulging up for outside text and down for
+ * inside text, as large as fits the text box with its letters and centred in it.
+ */
+const arcPath = ({ box }: TextFrame, side: TextPath['side'], sweep: number, fontSize: number): GuidePath => {
+  const half = (Math.min(sweep, 360) * Math.PI) / 360;
+  // Outside letters stick out past the arc, on both sides once it passes a half circle
+  const grow = side === 'outside' ? fontSize * (half > Math.PI / 2 ? 2 : 1) : 0;
+  const radius = Math.max(fontSize, Math.min(
+    half > Math.PI / 2 ? (box.width - grow) / 2 : box.width / 2 / Math.sin(half),
+    (box.height - grow) / (1 - Math.cos(half)),
+  ));
+  const middle = side === 'outside' ? -Math.PI / 2 : Math.PI / 2;
+  const direction = side === 'outside' ? 1 : -1;
+  const closed = sweep >= 360;
+  const steps = Math.max(8, Math.ceil(sweep / 3));
+  const angles = Array.from(
+    { length: closed ? steps : steps + 1 },
+    (_, i) => middle + direction * (-half + (2 * half * i) / steps),
+  );
+
+  // Centre the arc and the tops of its letters in the box
+  const tip = radius + (side === 'outside' ? fontSize : -fontSize);
+  const around = (r: number) => angles.map((angle) => ({ x: r * Math.cos(angle), y: r * Math.sin(angle) }));
+  const bounds = polygonBounds([...around(radius), ...around(tip)]);
+  const offsetX = box.centerX - bounds.left - bounds.width / 2;
+  const offsetY = box.centerY - bounds.top - bounds.height / 2;
+  return measurePath(around(radius).map(({ x, y }) => ({ x: x + offsetX, y: y + offsetY })), closed);
+};
+
+/**
+ * The longest subpath of the custom path, fitted to the text box; inside
+ * text runs it backwards. A straight line across the box while the path is
+ * missing or malformed.
+ */
+const customPath = ({ box }: TextFrame, { side, path }: TextPath): GuidePath => {
+  const left = box.centerX - box.width / 2;
+  const top = box.centerY - box.height / 2;
+  const segments = parsePathData(path);
+  const longest = segments && pathPolylines(fitPathSegments(segments, box.width, box.height))
+    .map(({ points, closed }) => measurePath(points.map(({ x, y }) => ({ x: left + x, y: top + y })), closed))
+    .reduce<GuidePath | null>((best, candidate) => (best && best.length >= candidate.length ? best : candidate), null);
+  if (!longest) {
+    return measurePath([{ x: left, y: box.centerY }, { x: left + box.width, y: box.centerY }], false);
+  }
+  if (side === 'outside') return longest;
+  const points = longest.closed ? longest.points.slice(0, -1) : longest.points;
+  return measurePath([...points].reverse(), longest.closed);
+};
+
+const guidePath = (frame: TextFrame, textPath: TextPath, fontSize: number): GuidePath => {
+  if (textPath.mode === 'arc') return arcPath(frame, textPath.side, textPath.sweep, fontSize);
+  if (textPath.mode === 'custom') return customPath(frame, textPath);
+  return outlinePath(frame, textPath.side, fontSize);
+};
+
+interface PathRun {
+  fontSize: number;
+  path: GuidePath;
+  widths: number[];
+  /** Letter spacing in pixels, which the letters are placed with by hand. */
+  spacing: number;
+  /** Length of the whole text along the path. */
+  advance: number;
+}
+
+/**
+ * Places each letter along the path, upright on its left side. Alignment
+ * applies along the path: justified text spreads over all of it. Letters
+ * past the end of an open path, or that would lap a closed one, are dropped.
+ */
+const placeLetters = (graphemes: string[], { fontSize, path, widths, spacing, advance }: PathRun, align: TextAlign, startOffset: number) => {
+  const { length, closed } = path;
+  const gaps = closed ? graphemes.length : graphemes.length - 1;
+  const justify = align === 'justify' && gaps > 0 && advance < length;
+  const extra = justify ? (length - advance - (closed ? spacing : 0)) / gaps : 0;
+  const aligned = align === 'center'
+    ? (length - advance) / 2
+    : align === 'right'
+      ? length - advance
+      : justify && closed ? (spacing + extra) / 2 : 0;
+  const start = path.origin + aligned + startOffset * length;
+
+  const lines: LayoutLine[] = [];
+  let at = start;
+  graphemes.forEach((grapheme, i) => {
+    const middle = at + widths[i] / 2;
+    at += widths[i] + spacing + extra;
+    if (!grapheme.trim()) return;
+    if (closed ? middle - start > length : middle < 0 || middle > length) return;
+
+    // Letters are drawn around their middle, half an em off the path
+    const point = pointAlong(path, middle);
+    lines.push({
+      text: grapheme,
+      x: point.x + (Math.sin(point.angle) * fontSize) / 2,
+      y: point.y - (Math.cos(point.angle) * fontSize) / 2,
+      width: widths[i],
+      justify: false,
+      angle: point.angle,
+    });
+  });
+  return lines;
+};
+
+/**
+ * Lays `text` out as a single line along a path: an arc, the shape's own
+ * outline or a custom path. Every letter becomes a line of its own, turned
+ * to follow the path. In auto mode the font is the largest size within the
+ * bounds at which the text fits the path's length, capped so it stays a rim.
+ * Leaves the context's font set to the chosen size, without letter spacing.
+ */
+export function layoutTextPath(
+  ctx: RenderContext,
+  text: string,
+  frame: TextFrame,
+  { sizing, fontFamily, typography }: LayoutOptions,
+  textPath: TextPath,
+): TextLayout {
+  const graphemes = splitGraphemes(text.replace(/\s+/g, ' ').trim());
+  const runAt = (fontSize: number): PathRun => {
+    applyFont(ctx, fontSize, fontFamily, typography);
+    // Letters are drawn one at a time, so the canvas must not add spacing after each
+    if ('letterSpacing' in ctx) ctx.letterSpacing = '0px';
+    const widths = graphemes.map((grapheme) => ctx.measureText(grapheme).width);
+    const spacing = typography.letterSpacing * fontSize;
+    const advance = widths.reduce((sum, width) => sum + width, 0) + spacing * Math.max(0, graphemes.length - 1);
+    return { fontSize, path: guidePath(frame, textPath, fontSize), widths, spacing, advance };
+  };
+  const fits = (run: PathRun) => run.advance <= run.path.length;
+
+  let best: PathRun;
+  if (sizing.mode === 'fixed') {
+    best = runAt(sizing.size);
+  } else {
+    const { width, height } = polygonBounds(frame.outline);
+    const max = Math.max(sizing.min, Math.min(sizing.max, Math.min(width, height) * MAX_PATH_FONT_SIZE));
+    best = runAt(max);
+    if (!fits(best)) {
+      let low = sizing.min;
+      let high = max;
+      best = runAt(low);
+      while (fits(best) && high - low > 0.5) {
+        const candidate = runAt((low + high) / 2);
+        if (fits(candidate)) {
+          best = candidate;
+          low = candidate.fontSize;
+        } else {
+          high = candidate.fontSize;
+        }
+      }
+      best = runAt(best.fontSize);
+    }
+  }
+
+  return { fontSize: best.fontSize, lines: placeLetters(graphemes, best, typography.align, textPath.startOffset) };
+}
@@ -0,0 +1,249 @@
+import type { ColorSchemeConfig } from "./color-schemes";
+import type { GradientConfig } from "./gradients";
+
+export const IMAGE_FORMATS = ['png', 'jpeg'] as const;
+export const IMAGE_SIZES = ['256', '512', '1024', 'custom'] as const;
+/** Schemes that are always registered; packs add more (see `registerScheme`). */
+export const BUILT_IN_COLOR_SCHEMES = ['purple', 'blue', 'green', 'orange', 'dark', 'light'] as const;
+/** Shapes that are always registered; packs add more (see `registerShape`). */
+export const IMAGE_SHAPES = [
+  'rectangle',
+  'rounded',
+  'circle',
+  'rhombus',
+  'triangle',
+  'polygon',
+  'star',
+  'heart',
+  'custom',
+] as const;
+export const TEXT_ALIGNS = ['left', 'center', 'right', 'justify'] as const;
+export const VERTICAL_ALIGNS = ['top', 'middle', 'bottom'] as const;
+export const TEXT_FILL_TYPES = ['solid', 'gradient', 'pattern'] as const;
+export const TEXT_PATTERNS = ['stripes', 'dots', 'checks'] as const;
+export const BORDER_STYLES = ['solid', 'dashed', 'dotted'] as const;
+export const OUTSIDE_BACKGROUNDS = ['transparent', 'solid', 'scheme'] as const;
+export const CALLIGRAM_MODES = ['off', 'repeat', 'flow'] as const;
+export const TEXT_PATH_MODES = ['off', 'arc', 'outline', 'custom'] as const;
+export const TEXT_PATH_SIDES = ['outside', 'inside'] as const;
+
+export type ImageFormat = typeof IMAGE_FORMATS[number];
+export type ImageSize = typeof IMAGE_SIZES[number];
+export type BuiltInColorScheme = typeof BUILT_IN_COLOR_SCHEMES[number];
+// Registered ids are open-ended; the `string & {}` keeps the built-in ones suggested
+/** A registered scheme id, or `'custom'` for the scheme a design embeds. */
+export type ColorScheme = BuiltInColorScheme | 'custom' | (string & {});
+/** A registered shape id. */
+export type ImageShape = typeof IMAGE_SHAPES[number] | (string & {});
+export type TextAlign = typeof TEXT_ALIGNS[number];
+export type VerticalAlign = typeof VERTICAL_ALIGNS[number];
+export type TextFillType = typeof TEXT_FILL_TYPES[number];
+export type TextPattern = typeof TEXT_PATTERNS[number];
+export type BorderStyle = typeof BORDER_STYLES[number];
+export type OutsideBackgroundType = typeof OUTSIDE_BACKGROUNDS[number];
+export type CalligramMode = typeof CALLIGRAM_MODES[number];
+export type TextPathMode = typeof TEXT_PATH_MODES[number];
+export type TextPathSide = typeof TEXT_PATH_SIDES[number];
+
+export interface CustomSize {
+  width: number;
+  height: number;
+}
+
+export type FontSizing =
+  | { mode: 'auto'; min: number; max: number }
+  | { mode: 'fixed'; size: number };
+
+export interface Typography {
+  /** CSS font weight, 100–900. */
+  weight: number;
+  italic: boolean;
+  /** Alignment of each line within the room the shape leaves for it. */
+  align: TextAlign;
+  /** Where the text block sits inside the shape. */
+  verticalAlign: VerticalAlign;
+  /** Line box height as a multiple of the font size. */
+  lineHeight: number;
+  /** Extra space after every character, in em. */
+  letterSpacing: number;
+  /** Extra space added to every space between words, in em. */
+  wordSpacing: number;
+}
+
+export interface TextShadow {
+  enabled: boolean;
+  /** Defaults to the color scheme's shadow colour. */
+  color?: string;
+  /** Blur radius and offsets, in pixels of the output image. */
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface TextGlow {
+  enabled: boolean;
+  color: string;
+  /** Blur radius in pixels of the output image. */
+  blur: number;
+}
+
+export interface TextOutline {
+  enabled: boolean;
+  color: string;
+  /** Stroke width around each glyph, as a fraction of the font size. */
+  width: number;
+}
+
+export interface TextFill {
+  /** `solid` paints the scheme's text colour; the other settings are kept for switching back. */
+  type: TextFillType;
+  /** Gradient colours, spread over the text block rather than the image. */
+  colors: string[];
+  gradient: GradientConfig;
+  /** Drawn in `patternColor` over the scheme's text colour. */
+  pattern: TextPattern;
+  patternColor: string;
+  /** Pattern tile size in pixels of the output image. */
+  patternSize: number;
+}
+
+/**
+ * Effects on the text layer. They stack in a fixed order, bottom to top:
+ * shadow, glow, outline, fill.
+ */
+export interface TextEffects {
+  shadow: TextShadow;
+  glow: TextGlow;
+  outline: TextOutline;
+  fill: TextFill;
+  /** Ids of registered effects (see `registerEffect`) drawn on top of the built-in ones. */
+  extras: string[];
+}
+
+/** Settings of the parametric shapes; each shape reads only its own. */
+export interface ShapeParams {
+  /** `polygon`: number of sides. */
+  sides: number;
+  /** `star`: number of points, and the inner radius as a fraction of the outer one. */
+  points: number;
+  innerRatio: number;
+  /**
+   * `rounded`: the four corner radii clockwise from the top left, as fractions
+   * of the shorter side (0.5 makes a full semicircle).
+   */
+  cornerRadii: number[];
+  /** `polygon`, `star` and `burst`: clockwise rotation in degrees; 0 puts a corner at the top. */
+  rotation: number;
+  /**
+   * `speech` and `thought`: where the tail leaves the bubble, from 0 (left) to
+   * 1 (right), and its length as a fraction of the image height.
+   */
+  tailPosition: number;
+  tailSize: number;
+  /** `burst`: number of rays. */
+  rays: number;
+  /** `blob`: seed of the random outline; the same seed always draws the same blob. */
+  seed: number;
+  /** `custom`: SVG path data (a `d` attribute), scaled to fit the image. */
+  customPath: string;
+}
+
+export interface ShapeBorder {
+  enabled: boolean;
+  color: string;
+  /** Pixels of the output image, drawn inside the shape's edge. */
+  width: number;
+  /** Dashes and dots are sized relative to the border width. */
+  style: BorderStyle;
+}
+
+export interface ShapeShadow {
+  enabled: boolean;
+  color: string;
+  /** Blur radius and offsets, in pixels of the output image. */
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * How the shape itself is drawn. A drop shadow shrinks the shape to leave a
+ * transparent margin for the shadow to fall on.
+ */
+export interface ShapeStyle {
+  border: ShapeBorder;
+  shadow: ShapeShadow;
+}
+
+/** What fills the image around the shape. */
+export interface OutsideBackground {
+  /** `scheme` continues the color scheme's background across the whole image. */
+  type: OutsideBackgroundType;
+  /** Used by `solid`; kept for switching back. */
+  color: string;
+}
+
+/** Text that fills the whole silhouette, row by row, instead of a centred block. */
+export interface Calligram {
+  /** `repeat` cycles the text until every row is full; `flow` sizes it to fill the shape once. */
+  mode: CalligramMode;
+  /** Rows of text `repeat` aims for when the font size is automatic. */
+  rows: number;
+  /** Leave the shape unfilled, so the letters alone form it. */
+  removeBackground: boolean;
+}
+
+export interface TextPath {
+  /**
+   * `arc` bends the text across the shape, `outline` runs it around the
+   * shape's edge and `custom` along `path`.
+   */
+  mode: TextPathMode;
+  /**
+   * Which side of the path the letters stand on, as in SVG: outside reads
+   * along the top of a circle, inside along the bottom.
+   */
+  side: TextPathSide;
+  /** Shift along the path from where the alignment puts the text, as a fraction of its length. */
+  startOffset: number;
+  /** Angle the arc covers, in degrees. */
+  sweep: number;
+  /** SVG path data the text follows in `custom` mode, fitted to the shape's text box. */
+  path: string;
+}
+
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Everything the engine needs to draw a text image. Plain data only, so a spec
+ * can be posted to a worker, stored or sent over the wire as-is.
+ */
+export interface RenderSpec {
+  text: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  /** Resolved colours, so custom schemes render without the local palette library. */
+  colorScheme: ColorSchemeConfig;
+  shape: ImageShape;
+  shapeParams: ShapeParams;
+  shapeStyle: ShapeStyle;
+  outsideBackground: OutsideBackground;
+  calligram: Calligram;
+  textPath: TextPath;
+  /** What JPEG output, which has no alpha, is flattened onto. */
+  matteColor: string;
+  fontSize: FontSizing;
+  fontFamily: string;
+  typography: Typography;
+  effects: TextEffects;
+  hyphenate: boolean;
+}
+
+export interface TextArea {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+}
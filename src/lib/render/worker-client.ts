@@ -0,0 +1,161 @@
+import { checkContrast, type ContrastReport } from "./contrast";
+import { ensureFontLoaded, fontFaceFor, getFont, type FontFaceSource } from "./fonts";
+import { JPEG_QUALITY, renderTextImage } from "./render";
+import type { RenderContext, RenderSpec } from "./types";
+
+export interface RenderWorkerRequest {
+  id: number;
+  spec: RenderSpec;
+  /** Faces of `spec.fontFamily`; the worker has its own font set to load them into. */
+  fontFaces: FontFaceSource[];
+  /** Draw a preview at this resolution multiplier instead of encoding the image. */
+  previewScale?: number;
+}
+
+/** A drawn preview and the contrast of its text, ready to be copied onto a visible canvas. */
+export interface RenderedPreview {
+  image: ImageBitmap | HTMLCanvasElement;
+  contrast: ContrastReport | null;
+}
+
+export type RenderWorkerResponse =
+  | { id: number; blob: Blob; preview?: undefined; error?: undefined }
+  | { id: number; preview: RenderedPreview; blob?: undefined; error?: undefined }
+  | { id: number; error: string; blob?: undefined; preview?: undefined };
+
+interface PendingRender {
+  resolve: (response: RenderWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRender>();
+
+const supportsOffscreenRendering = () => {
+  if (workerFailed || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return false;
+  }
+  try {
+    return new OffscreenCanvas(1, 1).getContext('2d') !== null;
+  } catch {
+    return false;
+  }
+};
+
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    const { id, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+
+    if (error === undefined) request.resolve(event.data);
+    else request.reject(new Error(error));
+  };
+  worker.onerror = (event) => {
+    // The worker script itself is broken or blocked; stop using it for good
+    console.error('Render worker failed:', event.message);
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+    pending.forEach((request) => request.reject(new Error('Render worker failed')));
+    pending.clear();
+  };
+
+  return worker;
+};
+
+const requestRender = (spec: RenderSpec, previewScale?: number) => new Promise<RenderWorkerResponse>((resolve, reject) => {
+  const id = nextRequestId++;
+  pending.set(id, { resolve, reject });
+  const fontFaces = getFont(spec.fontFamily)?.faces ?? [];
+  getWorker().postMessage({ id, spec, fontFaces, previewScale } satisfies RenderWorkerRequest);
+});
+
+const renderInWorker = async (spec: RenderSpec) => (await requestRender(spec)).blob;
+
+const renderOnMainThread = async (spec: RenderSpec, canvas: HTMLCanvasElement) => {
+  await ensureFontLoaded(spec.fontFamily, fontFaceFor(spec.typography));
+  renderTextImage(spec, canvas);
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))),
+      `image/${spec.format}`,
+      JPEG_QUALITY,
+    );
+  });
+};
+
+/**
+ * Renders and encodes `spec` off the main thread when the browser supports
+ * OffscreenCanvas, otherwise on `fallbackCanvas` (a detached canvas if omitted).
+ */
+export async function renderImageBlob(spec: RenderSpec, fallbackCanvas?: HTMLCanvasElement): Promise<Blob> {
+  if (supportsOffscreenRendering()) {
+    try {
+      return await renderInWorker(spec);
+    } catch (error) {
+      if (!workerFailed) throw error;
+    }
+  }
+  return renderOnMainThread(spec, fallbackCanvas ?? document.createElement('canvas'));
+}
+
+const previewOnMainThread = async (spec: RenderSpec, scale: number): Promise<RenderedPreview> => {
+  await ensureFontLoaded(spec.fontFamily, fontFaceFor(spec.typography));
+  const canvas = document.createElement('canvas');
+  const layout = renderTextImage(spec, canvas, { scale });
+  return { image: canvas, contrast: checkContrast(canvas.getContext('2d') as RenderContext, spec, layout) };
+};
+
+const renderPreviewNow = async (spec: RenderSpec, scale: number): Promise<RenderedPreview> => {
+  if (supportsOffscreenRendering()) {
+    try {
+      return (await requestRender(spec, scale)).preview;
+    } catch (error) {
+      if (!workerFailed) throw error;
+    }
+  }
+  return previewOnMainThread(spec, scale);
+};
+
+interface QueuedPreview {
+  spec: RenderSpec;
+  scale: number;
+  resolve: (preview: RenderedPreview | null) => void;
+  reject: (error: Error) => void;
+}
+
+let previewInFlight = false;
+let queuedPreview: QueuedPreview | null = null;
+
+const sendQueuedPreview = () => {
+  if (previewInFlight || !queuedPreview) return;
+  const { spec, scale, resolve, reject } = queuedPreview;
+  queuedPreview = null;
+  previewInFlight = true;
+  renderPreviewNow(spec, scale)
+    .then(resolve, reject)
+    .finally(() => {
+      previewInFlight = false;
+      sendQueuedPreview();
+    });
+};
+
+/**
+ * Draws a preview of `spec` at `scale` off the main thread where possible,
+ * and rates its contrast there too. One preview renders at a time and only the
+ * latest request waits behind it: requests it replaces resolve to null.
+ */
+export function renderPreview(spec: RenderSpec, scale: number): Promise<RenderedPreview | null> {
+  return new Promise((resolve, reject) => {
+    queuedPreview?.resolve(null);
+    queuedPreview = { spec, scale, resolve, reject };
+    sendQueuedPreview();
+  });
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  DESIGN_PARAM,
+  TextArtSpecError,
+  decodeSpecParam,
+  renderImageBlob,
+  toRenderSpec,
+} from "@/lib/render";
+
+interface RenderedImage {
+  url: string;
+  filename: string;
+}
+
+/**
+ * Bare image endpoint: renders the spec in the `d` param and shows nothing but
+ * the result, linked to its own blob so it can be downloaded with one click.
+ */
+const Render = () => {
+  const [searchParams] = useSearchParams();
+  const param = searchParams.get(DESIGN_PARAM);
+  const [image, setImage] = useState<RenderedImage | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        if (!param) {
+          throw new TextArtSpecError([`Missing "${DESIGN_PARAM}" parameter`]);
+        }
+        const spec = toRenderSpec(decodeSpecParam(param));
+        const blob = await renderImageBlob(spec);
+        if (cancelled) return;
+
+        url = URL.createObjectURL(blob);
+        setImage({ url, filename: `text-image.${spec.format}` });
+        setErrorMessage(null);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error rendering image:', error);
+        setImage(null);
+        setErrorMessage(error instanceof TextArtSpecError ? error.issues.join('\n') : 'Failed to render image');
+      }
+    };
+
+    render();
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [param]);
+
+  if (errorMessage) {
+    return <pre className="p-4 text-sm text-destructive whitespace-pre-wrap">{errorMessage}</pre>;
+  }
+
+  if (!image) return null;
+
+  return (
+    <a href={image.url} download={image.filename}>
+      <img src={image.url} alt="Generated text image" className="block" />
+    </a>
+  );
+};
+
+export default Render;